@@ -1,17 +1,50 @@
 import PocketBase from 'pocketbase';
-import type { RecordSubscription } from 'pocketbase';
-import { createCollection as createTanStackCollection, type Collection, type LoadSubsetOptions } from "@tanstack/react-db"
+import type { RecordSubscribeOptions, RecordSubscription } from 'pocketbase';
+import {
+    IR,
+    createCollection as createTanStackCollection,
+    type Collection,
+    type DeleteMutationFn,
+    type InsertMutationFn,
+    type LoadSubsetOptions,
+    type SyncConfig,
+    type UpdateMutationFn,
+} from "@tanstack/react-db"
 import { queryCollectionOptions, type QueryCollectionUtils } from "@tanstack/query-db-collection"
 import { QueryClient } from '@tanstack/react-query'
-import { convertToPocketBaseFilter, convertToPocketBaseSort } from './pocketbase-query-converter';
+import {
+    buildCursorFilter,
+    combinePocketBaseFilters,
+    convertToPocketBaseFilter,
+    convertToPocketBaseSort,
+    convertWhereBuilderToPocketBaseFilter,
+} from './pocketbase-query-converter';
 import type {
     SchemaDeclaration,
     CreateCollectionOptions,
     ExtractRecordType,
-    ExpandTargetCollection,
+    ExpandedRelations,
     BaseRecord,
+    LoadProgress,
+    PageRequest,
+    PageResult,
+    RealtimeStatus,
+    RealtimeStatusEvent,
+    RecordFilter,
 } from './types';
 import { logger } from './logger';
+import { getConnectionMonitor } from './connection';
+import { resubmitSubscriptions, subscribeShared } from './realtime';
+import {
+    type ExpandNode,
+    buildExpandString,
+    createBackRelationIndex,
+    isAffectedByTargetChanges,
+    normalizeExpandConfig,
+    patchEmbeddedExpand,
+    resolveExpandReferences,
+    upsertExpandedRecords,
+} from './expand';
 
 export type {
     SchemaDeclaration,
@@ -25,8 +58,365 @@ export type {
  */
 type ExtendedLoadSubsetOptions = LoadSubsetOptions & {
     pbExpand?: string;
+    /** Write each page into the collection as soon as it is loaded (progressive background load) */
+    streamPages?: boolean;
+    /** Page requested with loadPage, loaded by a query of its own */
+    page?: PageQuery;
+    /** Record requested with loadFullRecord, loaded unprojected by a query of its own */
+    fullRecordId?: string;
 };
 
+/**
+ * PocketBase request for a page loaded with loadPage.
+ * @internal
+ */
+type PageQuery = {
+    page: number;
+    perPage: number;
+    /** Filter of the request, without the cursor (also the page's realtime scope) */
+    filter?: string;
+    sort?: string;
+    /** Filter selecting the records after the cursor, for cursor requests */
+    cursor?: string;
+};
+
+/**
+ * Number of records requested per page when no `pageSize` option is given.
+ * @internal
+ */
+const DEFAULT_PAGE_SIZE = 500;
+
+/**
+ * Delay before the first retry of a failed realtime subscription; doubled after every failure.
+ * @internal
+ */
+const RETRY_BASE_DELAY_MS = 1000;
+
+/**
+ * Longest delay between retries of a failed realtime subscription.
+ * @internal
+ */
+const RETRY_MAX_DELAY_MS = 30_000;
+
+/**
+ * Batching window used for `realtimeBatching: 'frame'` where requestAnimationFrame is unavailable or
+ * the page is hidden.
+ * @internal
+ */
+const FRAME_FALLBACK_MS = 16;
+
+/**
+ * Most held records checked against the realtime scope in one request, with a filter listing their ids.
+ * @internal
+ */
+const SCOPE_CHECK_BATCH = 40;
+
+/**
+ * Delay for collecting create and delete events before a watched count is fetched again, unless
+ * `realtimeBatching` sets a window.
+ * @internal
+ */
+const RECOUNT_DELAY_MS = 100;
+
+/**
+ * Compares JSON values (records and expanded relations as returned by PocketBase) structurally.
+ * Properties set to undefined count as missing.
+ * @internal
+ */
+function jsonEquals(a: unknown, b: unknown): boolean {
+    if (a === b) return true;
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+    if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+    const definedKeys = (value: object) => Object.keys(value).filter((key) => (value as Record<string, unknown>)[key] !== undefined);
+    const keys = definedKeys(a);
+    if (keys.length !== definedKeys(b).length) return false;
+    return keys.every((key) => jsonEquals((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+}
+
+/**
+ * Collapses two realtime events for the same record into one, or returns undefined when
+ * they cancel out (a record created and deleted within the same batch).
+ * @internal
+ */
+function collapseRealtimeEvents<T>(previous: RecordSubscription<T> | undefined, next: RecordSubscription<T>): RecordSubscription<T> | undefined {
+    if (!previous) return next;
+    if (previous.action === 'create') {
+        if (next.action === 'delete') return undefined;
+        return { ...next, action: 'create' };
+    }
+    // Recreated after a delete: the record may still be held locally, so upsert it
+    if (previous.action === 'delete' && next.action === 'create') {
+        return { ...next, action: 'update' };
+    }
+    return next;
+}
+
+/**
+ * Options for loading every page of a PocketBase list query.
+ * @internal
+ */
+interface FetchPagesOptions<T> {
+    filter?: string;
+    sort?: string;
+    expand?: string;
+    fields?: string;
+    /** Stop once this many records are loaded */
+    limit?: number;
+    pageSize: number;
+    onProgress?: (progress: LoadProgress) => void;
+    /** Called with the records of each page as it arrives */
+    onPage?: (items: T[]) => void;
+}
+
+/**
+ * Loads records page by page until every matching record (or `limit` records) is fetched.
+ * The page size stays constant across requests so PocketBase page offsets line up.
+ * @internal
+ */
+async function fetchPages<T>(
+    pb: PocketBase,
+    collectionName: string,
+    { filter, sort, expand, fields, limit, pageSize, onProgress, onPage }: FetchPagesOptions<T>
+): Promise<T[]> {
+    const perPage = limit ? Math.min(limit, pageSize) : pageSize;
+    const items: T[] = [];
+    let page = 0;
+    let totalPages = 0;
+
+    do {
+        page++;
+        const result = await pb.collection(collectionName).getList(page, perPage, {
+            filter,
+            sort,
+            expand,
+            fields,
+        });
+        const pageItems = result.items as unknown as T[];
+        items.push(...pageItems);
+        onPage?.(pageItems);
+
+        const total = limit ? Math.min(limit, result.totalItems) : result.totalItems;
+        totalPages = Math.min(result.totalPages, Math.ceil(total / perPage));
+
+        logger.debug('Loaded page', { collectionName, page, totalPages });
+        onProgress?.({
+            collectionName,
+            page,
+            totalPages,
+            loaded: Math.min(items.length, total),
+            total,
+        });
+
+        if (result.items.length < perPage) break;
+    } while (page < totalPages);
+
+    return limit ? items.slice(0, limit) : items;
+}
+
+/**
+ * Id of the authenticated record. SDK versions before 0.23 only expose it as `authStore.model`.
+ * @internal
+ */
+function authRecordId(pb: PocketBase): string | undefined {
+    const authStore = pb.authStore as unknown as { record?: { id?: string } | null; model?: { id?: string } | null };
+    return (authStore.record ?? authStore.model)?.id;
+}
+
+/**
+ * Wraps an on-demand sync config to report the where-clauses of the currently loaded subsets,
+ * converted to PocketBase filters (undefined for a subset without a where-clause, or one that can't be converted).
+ * Pages and full records loaded on request report their own filter.
+ * A subset is reported as soon as it is requested, so no realtime event is missed while it loads.
+ * @internal
+ */
+function withSubsetTracking<T extends object>(
+    syncConfig: SyncConfig<T, string | number>,
+    onChange: (filters: Array<string | undefined>) => void
+): SyncConfig<T, string | number> {
+    return {
+        ...syncConfig,
+        sync: (params) => {
+            const result = syncConfig.sync(params);
+            if (!result || typeof result === 'function' || !result.loadSubset) return result;
+
+            const { loadSubset, unloadSubset } = result;
+            const activeSubsets = new Map<LoadSubsetOptions, string | undefined>();
+            const report = () => onChange(Array.from(activeSubsets.values()));
+
+            return {
+                ...result,
+                loadSubset: (opts) => {
+                    const { page, fullRecordId } = opts as ExtendedLoadSubsetOptions;
+                    let filter: string | undefined;
+                    try {
+                        filter = page
+                            ? page.filter
+                            : fullRecordId
+                                ? `id = ${JSON.stringify(fullRecordId)}`
+                                : convertToPocketBaseFilter(opts.where);
+                    } catch (error) {
+                        // The query itself fails with this error; realtime falls back to every record meanwhile
+                        logger.debug('Subset filter not convertible, subscribing unscoped', { error });
+                    }
+                    activeSubsets.set(opts, filter);
+                    report();
+                    return loadSubset(opts);
+                },
+                unloadSubset: (opts) => {
+                    if (activeSubsets.delete(opts)) report();
+                    unloadSubset?.(opts);
+                },
+            };
+        },
+    };
+}
+
+/**
+ * Wraps a sync config so that every record written to the collection has its `expand` resolved
+ * from the target collections (normalized expand storage). Resolving at write time rather than
+ * after fetching means a target that finishes loading while a fetch is in flight is still used.
+ * @internal
+ */
+function withNormalizedExpand<T extends object>(syncConfig: SyncConfig<T, string | number>, nodes: Record<string, ExpandNode>): SyncConfig<T, string | number> {
+    return {
+        ...syncConfig,
+        sync: (params) => {
+            // Back-relations are indexed once per transaction rather than scanned for every written record
+            let backRelations = createBackRelationIndex();
+            return syncConfig.sync({
+                ...params,
+                begin: () => {
+                    backRelations = createBackRelationIndex();
+                    params.begin();
+                },
+                write: (message) => params.write(
+                    message.type === 'delete'
+                        ? message
+                        : { ...message, value: resolveExpandReferences(message.value, nodes, backRelations) }
+                ),
+            });
+        },
+    };
+}
+
+/**
+ * Wraps a sync config to call `onStart` whenever sync starts, which is on first use and again after
+ * the collection was garbage collected, and `onCleanup` when the collection is cleaned up.
+ * @internal
+ */
+function withSyncLifecycle<T extends object>(
+    syncConfig: SyncConfig<T, string | number>,
+    onStart: () => void,
+    onCleanup: () => void
+): SyncConfig<T, string | number> {
+    return {
+        ...syncConfig,
+        sync: (params) => {
+            onStart();
+            const result = syncConfig.sync(params);
+            if (typeof result === 'function') {
+                return () => {
+                    result();
+                    onCleanup();
+                };
+            }
+            return {
+                ...result,
+                cleanup: () => {
+                    result?.cleanup?.();
+                    onCleanup();
+                },
+            };
+        },
+    };
+}
+
+/**
+ * Converts a RecordFilter (string or where-builder) to a PocketBase filter string.
+ * @internal
+ */
+function resolveRecordFilter<T>(filter: RecordFilter<T> | undefined): string | undefined {
+    if (typeof filter === 'function') {
+        return convertWhereBuilderToPocketBaseFilter(filter);
+    }
+    return filter || undefined;
+}
+
+/**
+ * Wraps an on-demand sync config so it loads the full collection in the background.
+ * Subsets requested before the full load completes are fetched from the server; afterwards every
+ * subset is already local, so loadSubset resolves immediately and queries are evaluated client-side.
+ * The full load is an ordinary (unfiltered) query, so it owns every row and subset cleanup never
+ * removes records that it loaded.
+ * @internal
+ */
+function withProgressiveLoad<T extends object>(syncConfig: SyncConfig<T, string | number>, collectionName: string): SyncConfig<T, string | number> {
+    return {
+        ...syncConfig,
+        sync: (params) => {
+            const result = syncConfig.sync(params);
+            if (!result || typeof result === 'function' || !result.loadSubset) return result;
+
+            const { loadSubset, unloadSubset } = result;
+            // Options objects whose subsets were loaded from the server and must be unloaded there too
+            const serverSubsets = new WeakSet<LoadSubsetOptions>();
+            let fullLoadStarted = false;
+            let fullyLoaded = false;
+
+            const startFullLoad = () => {
+                if (fullLoadStarted) return;
+                fullLoadStarted = true;
+                logger.debug('Starting progressive full load', { collectionName });
+
+                const fullLoadOptions: ExtendedLoadSubsetOptions = { streamPages: true };
+                Promise.resolve(loadSubset(fullLoadOptions))
+                    .then(() => {
+                        fullyLoaded = true;
+                        logger.debug('Progressive full load complete', { collectionName });
+                    })
+                    .catch((error) => {
+                        logger.error('Progressive full load failed', { collectionName, error });
+                    });
+            };
+
+            // Let the first live queries go out before the full load competes with them;
+            // a collection that is preloaded without any query starts the full load on the next tick
+            setTimeout(startFullLoad, 0);
+
+            return {
+                ...result,
+                loadSubset: (opts) => {
+                    if (fullyLoaded) return true;
+
+                    serverSubsets.add(opts);
+                    const subset = loadSubset(opts);
+                    Promise.resolve(subset).catch(() => {}).finally(startFullLoad);
+                    return subset;
+                },
+                unloadSubset: (opts) => {
+                    if (serverSubsets.has(opts)) {
+                        serverSubsets.delete(opts);
+                        unloadSubset?.(opts);
+                    }
+                },
+            };
+        },
+    };
+}
+
+/**
+ * Compute the record type narrowed to the configured `fields` projection ('id' is always included).
+ * @internal
+ */
+type WithFieldsFromConfig<
+    Schema extends SchemaDeclaration,
+    C extends keyof Schema,
+    Opts
+> = Opts extends { fields: readonly (infer F)[] }
+    ? Pick<ExtractRecordType<Schema, C>, Extract<F | 'id', keyof ExtractRecordType<Schema, C>>>
+    : ExtractRecordType<Schema, C>;
+
 /**
  * Compute the record type with expand property when expand option is configured.
  * @internal
@@ -34,18 +424,13 @@ type ExtendedLoadSubsetOptions = LoadSubsetOptions & {
 type WithExpandFromConfig<
     Schema extends SchemaDeclaration,
     C extends keyof Schema,
-    Opts
+    Opts,
+    Base = WithFieldsFromConfig<Schema, C, Opts>
 > = Opts extends { expand: infer E }
-    ? ExtractRecordType<Schema, C> & {
-        expand?: {
-            [K in keyof E]: K extends keyof import('./types').ExtractRelations<Schema, C>
-                ? import('./types').ExtractRelations<Schema, C>[K] extends Array<infer U>
-                    ? U[]
-                    : import('./types').ExtractRelations<Schema, C>[K]
-                : never;
-        };
+    ? Base & {
+        expand?: ExpandedRelations<Schema, C, E>;
     }
-    : ExtractRecordType<Schema, C>;
+    : Base;
 
 /**
  * Subscription helpers added to collection instances.
@@ -54,10 +439,68 @@ type WithExpandFromConfig<
 interface CollectionSubscriptionHelpers {
     /** The PocketBase collection name */
     collectionName: string;
-    /** Wait for subscription to be established (useful in tests) */
+    /**
+     * Wait for the realtime subscription to be established. Rejects with the error from `subscribe`
+     * if the last attempt failed or the next one fails, or after `timeout` milliseconds (default 5000).
+     */
     waitForSubscription: (timeout?: number) => Promise<void>;
     /** Check if collection has an active subscription */
     isSubscribed: () => boolean;
+    /** Current lifecycle state of the realtime subscription */
+    realtimeStatus: () => RealtimeStatus;
+    /** Listen to realtime subscription lifecycle events. Returns a function that stops listening. */
+    on(event: 'realtime:status', callback: (event: RealtimeStatusEvent) => void): () => void;
+    /** Listen to the next realtime subscription lifecycle event. Returns a function that stops listening. */
+    once(event: 'realtime:status', callback: (event: RealtimeStatusEvent) => void): () => void;
+    /** Stop listening to realtime subscription lifecycle events */
+    off(event: 'realtime:status', callback: (event: RealtimeStatusEvent) => void): void;
+    /**
+     * Subscribe to realtime updates of a single record. Subscriptions are shared per id and
+     * closed when the last consumer releases them. Returns a function that releases this consumer.
+     */
+    subscribeRecord: (id: string) => () => void;
+}
+
+/**
+ * Server-side count helpers added to collection instances.
+ * @internal
+ */
+interface CollectionCountHelpers<T extends object> {
+    /** Count the records matching a filter on the server, without loading them */
+    count: (where?: RecordFilter<T>) => Promise<number>;
+    /**
+     * Count matching records and recount shortly after matching records are created or deleted.
+     * Returns a function that stops watching.
+     */
+    watchCount: (
+        where: RecordFilter<T> | undefined,
+        listener: (count: number) => void,
+        onError?: (error: unknown) => void
+    ) => () => void;
+}
+
+/**
+ * Pagination helpers added to collection instances.
+ * @internal
+ */
+interface CollectionPaginationHelpers<T extends object> {
+    /**
+     * Load a single page of records by offset (`page`) or cursor (`after`) into the collection.
+     * Previously loaded pages stay in the collection, which suits infinite-scroll lists.
+     */
+    loadPage: (request?: PageRequest<T>) => Promise<PageResult<T>>;
+}
+
+/**
+ * Projection helpers added to collection instances.
+ * @internal
+ */
+interface CollectionProjectionHelpers<TFull extends object> {
+    /**
+     * Fetch every field of a record, ignoring the `fields` projection, and merge it into the collection.
+     * Lets detail views load the full record from a collection configured for list views.
+     */
+    loadFullRecord: (id: string) => Promise<TFull>;
 }
 
 /**
@@ -78,7 +521,10 @@ type InferCollectionType<
     Opts extends { omitOnInsert: infer O extends readonly import('./types').OmittableFields<ExtractRecordType<Schema, C>>[] }
         ? import('./types').ComputeInsertType<ExtractRecordType<Schema, C>, O>
         : ExtractRecordType<Schema, C>
-> & CollectionSubscriptionHelpers;
+> & CollectionSubscriptionHelpers
+  & CollectionCountHelpers<ExtractRecordType<Schema, C>>
+  & CollectionPaginationHelpers<WithExpandFromConfig<Schema, C, Opts>>
+  & CollectionProjectionHelpers<WithExpandFromConfig<Schema, C, Opts, ExtractRecordType<Schema, C>>>;
 
 
 /**
@@ -125,57 +571,196 @@ export function createCollection<Schema extends SchemaDeclaration>(
         options?: Opts
     ): InferCollectionType<Schema, C, Opts> => {
         type RecordType = ExtractRecordType<Schema, C>;
-        const expandStores = options?.expand as Record<string, ExpandTargetCollection> | undefined;
-        const expandString = expandStores ? Object.keys(expandStores).sort().join(',') : undefined;
+        const expandNodes = normalizeExpandConfig(options?.expand as Record<string, object> | undefined);
+        const expandString = buildExpandString(expandNodes);
+        // In normalized storage, record.expand references the target collections' records instead of copies
+        const normalizedExpand = options?.expandStorage === 'normalized' ? expandNodes : undefined;
+        // 'id' is required for record tracking, 'updated' for the deltaSync cursor, and 'expand' must be
+        // kept when relations are expanded
+        const fieldsString = options?.fields
+            ? [...new Set([
+                'id',
+                ...options.fields,
+                ...(options.deltaSync ? ['updated'] : []),
+                ...(expandString ? ['expand'] : []),
+            ])].join(',')
+            : undefined;
+        const baseFilter = resolveRecordFilter(options?.baseFilter);
+
+        // Highest `updated` value fetched so far, per query key (used by deltaSync)
+        const deltaCursors = new Map<string, string>();
+        // Delta queries that must also look for deletions, e.g. after missing realtime events while offline
+        let pendingDeletionChecks = new Set<string>();
+
+        async function fetchRecords(loadOptions?: ExtendedLoadSubsetOptions, extraFilter?: string): Promise<RecordType[]> {
+            const items = await fetchPages<RecordType>(pb, collectionName, {
+                filter: combinePocketBaseFilters(baseFilter, convertToPocketBaseFilter(loadOptions?.where), extraFilter),
+                sort: convertToPocketBaseSort(loadOptions?.orderBy),
+                expand: expandString,
+                fields: fieldsString,
+                limit: loadOptions?.limit,
+                pageSize: options?.pageSize ?? DEFAULT_PAGE_SIZE,
+                onProgress: options?.onLoadProgress,
+                onPage: loadOptions?.streamPages
+                    ? (page) => {
+                        if (page.length > 0) collection.utils.writeUpsert(page);
+                    }
+                    : undefined,
+            });
+
+            await upsertExpanded(items);
+
+            return items;
+        }
+
+        // Upsert expanded relation records into their target collections
+        async function upsertExpanded(items: RecordType[]): Promise<void> {
+            await upsertExpandedRecords(collectionName, items, expandNodes);
+        }
+
+        // Results of the pages loaded so far, read back by loadPage once the page's query has loaded
+        const pageResults = new Map<string, PageResult<RecordType>>();
+
+        async function fetchPage(query: PageQuery): Promise<PageResult<RecordType>> {
+            const { page, perPage, filter, sort, cursor } = query;
+            const result = await pb.collection(collectionName).getList(page, perPage, {
+                filter: combinePocketBaseFilters(baseFilter, filter, cursor),
+                sort,
+                expand: expandString,
+                fields: fieldsString,
+            });
+            const items = result.items as unknown as RecordType[];
+            await upsertExpanded(items);
+
+            const hasMore = cursor ? result.totalItems > items.length : page < result.totalPages;
+            const pageResult: PageResult<RecordType> = {
+                items,
+                page,
+                perPage,
+                totalItems: result.totalItems,
+                totalPages: result.totalPages,
+                nextCursor: hasMore ? items[items.length - 1] : undefined,
+            };
+            pageResults.set(JSON.stringify(query), pageResult);
+            return pageResult;
+        }
+
+        // Fetch a record without the fields projection
+        async function fetchFullRecord(id: string): Promise<RecordType> {
+            const record = await pb.collection(collectionName).getOne(id, {
+                expand: expandString,
+            }) as unknown as RecordType;
+            await upsertExpanded([record]);
+            return record;
+        }
+
+        // Fetch the ids of every record matching a query (used to find deleted records)
+        async function fetchRecordIds(loadOptions?: ExtendedLoadSubsetOptions): Promise<Set<string>> {
+            const items = await fetchPages<{ id: string }>(pb, collectionName, {
+                filter: combinePocketBaseFilters(baseFilter, convertToPocketBaseFilter(loadOptions?.where)),
+                fields: 'id',
+                pageSize: options?.pageSize ?? DEFAULT_PAGE_SIZE,
+            });
+            return new Set(items.map((item) => item.id));
+        }
 
-        async function fetchRecords(loadOptions?: ExtendedLoadSubsetOptions): Promise<RecordType[]> {
-            const filter = convertToPocketBaseFilter(loadOptions?.where);
-            const sort = convertToPocketBaseSort(loadOptions?.orderBy);
-            const limit = loadOptions?.limit;
+        // Fetch only records updated since the last fetch and merge them into the synced records.
+        // Only used by eager collections, whose single query holds every synced record, so records
+        // deleted by realtime events since the last fetch are never merged back in
+        async function fetchDelta(queryKey: readonly unknown[], loadOptions?: ExtendedLoadSubsetOptions): Promise<RecordType[]> {
+            const cursorKey = JSON.stringify(queryKey);
+            const lastSeen = deltaCursors.get(cursorKey);
 
-            let items: RecordType[];
-            if (!filter && !sort && !limit && !expandString) {
-                items = await pb.collection(collectionName).getFullList() as unknown as RecordType[];
+            let records: RecordType[];
+            let changed: RecordType[];
+            // Nothing is held after garbage collection, so there is nothing to merge a delta into
+            if (lastSeen && collection._state.syncedData.size > 0) {
+                // Records written in the same millisecond as the last one fetched may have been committed after
+                // the fetch, so that millisecond is fetched again; merging by id drops the duplicates
+                changed = await fetchRecords(loadOptions, `updated >= ${JSON.stringify(lastSeen)}`);
+                const previous = Array.from(collection._state.syncedData.values()) as RecordType[];
+                const merged = new Map(previous.map((record) => [record.id, record]));
+                for (const record of changed) {
+                    merged.set(record.id, record);
+                }
+                // A delta can't see deletions; listing the ids afterwards also keeps records created in between
+                if (pendingDeletionChecks.delete(cursorKey)) {
+                    const ids = await fetchRecordIds(loadOptions);
+                    for (const id of merged.keys()) {
+                        if (!ids.has(id)) merged.delete(id);
+                    }
+                }
+                records = Array.from(merged.values());
+                logger.debug('Delta sync', { collectionName, since: lastSeen, changed: changed.length });
             } else {
-                const result = await pb.collection(collectionName).getList(1, limit || 500, {
-                    filter,
-                    sort,
-                    expand: expandString,
-                });
-                items = result.items as unknown as RecordType[];
+                records = changed = await fetchRecords(loadOptions);
             }
 
-            if (expandStores) {
-                for (const record of items) {
-                    const expandData = (record as RecordType & { expand?: Record<string, object | object[]> }).expand;
-                    if (!expandData) continue;
-
-                    for (const [key, value] of Object.entries(expandData)) {
-                        const targetStore = expandStores[key];
-                        if (!targetStore.utils) continue;
-                        if (!targetStore.isReady()) {
-                            if (targetStore.config?.syncMode === 'on-demand') {
-                                await targetStore._sync.startSync();
-                            } else {
-                                logger.warn(`not syncing ${key} on ${collectionName} because store is not yet ready`)
-                                continue
-                            }
-                        }
-                        const values = Array.isArray(value) ? value : [value];
-                        targetStore.utils.writeUpsert(values);
-                    }
+            let cursor = lastSeen;
+            for (const record of changed) {
+                const updated = (record as { updated?: unknown }).updated;
+                if (typeof updated === 'string' && (!cursor || updated > cursor)) {
+                    cursor = updated;
                 }
             }
+            if (cursor) {
+                deltaCursors.set(cursorKey, cursor);
+            }
 
-            return items;
+            return records;
         }
 
+        // Records with a mutation being sent to PocketBase, and the latest realtime event received for each
+        // meanwhile. Those events are mostly echoes of the mutation, so they wait until it settles instead of
+        // racing the optimistic state
+        const inFlightMutations = new Map<string, number>();
+        const heldRealtimeEvents = new Map<string, RecordSubscription<RecordType>>();
+
+        const trackInFlight = <F extends InsertMutationFn<RecordType> | UpdateMutationFn<RecordType> | DeleteMutationFn<RecordType>>(
+            handler: F
+        ): F => (async (params: Parameters<F>[0]) => {
+            const ids = params.transaction.mutations.map((mutation) => String(mutation.key));
+            for (const id of ids) {
+                inFlightMutations.set(id, (inFlightMutations.get(id) ?? 0) + 1);
+            }
+            try {
+                return await handler(params as never);
+            } finally {
+                for (const id of ids) {
+                    const remaining = (inFlightMutations.get(id) ?? 1) - 1;
+                    if (remaining > 0) {
+                        inFlightMutations.set(id, remaining);
+                        continue;
+                    }
+                    inFlightMutations.delete(id);
+                    const held = heldRealtimeEvents.get(id);
+                    if (held) {
+                        heldRealtimeEvents.delete(id);
+                        handleRealtimeEvent(held);
+                    }
+                }
+            }
+        }) as F;
+
         const collectionOptions = queryCollectionOptions({
             queryClient,
             queryKey: [collectionName],
-            syncMode: options?.syncMode ?? 'eager',
+            // Progressive collections start out on-demand and switch to local evaluation after the full load
+            syncMode: options?.syncMode === 'progressive' ? 'on-demand' : options?.syncMode ?? 'eager',
             queryFn: async (ctx): Promise<RecordType[]> => {
-                return fetchRecords(ctx.meta?.loadSubsetOptions as ExtendedLoadSubsetOptions | undefined);
+                const loadOptions = ctx.meta?.loadSubsetOptions as ExtendedLoadSubsetOptions | undefined;
+                if (loadOptions?.page) {
+                    return (await fetchPage(loadOptions.page)).items;
+                }
+                if (loadOptions?.fullRecordId) {
+                    return [await fetchFullRecord(loadOptions.fullRecordId)];
+                }
+                // Subset queries of on-demand and progressive collections aren't updated by realtime writes,
+                // so merging a delta into their cached rows could bring back deleted records
+                if (options?.deltaSync && !loadOptions) {
+                    return fetchDelta(ctx.queryKey, loadOptions);
+                }
+                return fetchRecords(loadOptions);
             },
             getKey: (item: RecordType) => {
                 const record = item as any;
@@ -184,151 +769,972 @@ export function createCollection<Schema extends SchemaDeclaration>(
                 }
                 return record.id;
             },
-            onInsert: options?.onInsert === false ? undefined : options?.onInsert ?? (async ({ transaction }) => {
+            onInsert: options?.onInsert === false ? undefined : trackInFlight<InsertMutationFn<RecordType>>(options?.onInsert ?? (async ({ transaction }) => {
                 await Promise.all(
                     transaction.mutations.map(async (mutation) => {
                         const { created, updated, collectionId, collectionName: _, ...data } = mutation.modified as unknown as Record<string, unknown>;
                         await pb.collection(collectionName).create(data);
                     })
                 );
-            }),
-            onUpdate: options?.onUpdate === false ? undefined : options?.onUpdate ?? (async ({ transaction }) => {
+            })),
+            onUpdate: options?.onUpdate === false ? undefined : trackInFlight<UpdateMutationFn<RecordType>>(options?.onUpdate ?? (async ({ transaction }) => {
                 await Promise.all(
                     transaction.mutations.map(async (mutation) => {
                         const recordWithId = mutation.original as { id: string };
                         await pb.collection(collectionName).update(recordWithId.id, mutation.changes);
                     })
                 );
-            }),
-            onDelete: options?.onDelete === false ? undefined : options?.onDelete ?? (async ({ transaction }) => {
+            })),
+            onDelete: options?.onDelete === false ? undefined : trackInFlight<DeleteMutationFn<RecordType>>(options?.onDelete ?? (async ({ transaction }) => {
                 await Promise.all(
                     transaction.mutations.map(async (mutation) => {
                         const recordWithId = mutation.original as { id: string };
                         await pb.collection(collectionName).delete(recordWithId.id);
                     })
                 );
-            })
+            }))
         });
 
+        // Where-clauses of the subsets loaded by an on-demand collection; eager collections hold everything
+        let subsetFilters: Array<string | undefined> | undefined;
+        if (options?.syncMode === 'on-demand' || options?.syncMode === 'progressive') {
+            subsetFilters = [];
+            collectionOptions.sync = withSubsetTracking(collectionOptions.sync, (filters) => {
+                subsetFilters = filters;
+                refreshSubscriptionScope();
+            });
+        }
+        if (options?.syncMode === 'progressive') {
+            collectionOptions.sync = withProgressiveLoad(collectionOptions.sync, collectionName);
+        }
+        if (normalizedExpand) {
+            collectionOptions.sync = withNormalizedExpand(collectionOptions.sync, normalizedExpand);
+        }
+        collectionOptions.sync = withSyncLifecycle(
+            collectionOptions.sync,
+            () => handleSyncStart(),
+            () => handleSyncCleanup()
+        );
+
         const collection = createTanStackCollection(collectionOptions);
 
         // Real-time subscription state
         let unsubscribeFn: (() => Promise<void>) | null = null;
+        let releaseReconnects: (() => void) | null = null;
         let isSubscribed = false;
-        let subscriptionPromise: Promise<void> | null = null;
-        let subscriptionResolve: (() => void) | null = null;
+        let subscribedScope: string | undefined | null;
+        let scopeUpdate: Promise<void> = Promise.resolve();
+        let realtimeStatus: RealtimeStatus = 'stopped';
+        let realtimeError: unknown;
+        // Incremented on every start and stop, so an attempt can tell it was overtaken
+        let subscribeRun = 0;
+        let retryAttempt = 0;
+        let retryTimer: ReturnType<typeof setTimeout> | undefined;
 
-        // Handle real-time events from PocketBase
-        const handleRealtimeEvent = (event: RecordSubscription<RecordType>) => {
-            if (!collection.utils) return;
+        // Realtime status listeners, and whether each listens once. Kept apart from TanStack's collection
+        // events, whose listeners are all removed when the collection is garbage collected
+        const realtimeStatusListeners = new Map<(event: RealtimeStatusEvent) => void, boolean>();
+
+        const listenRealtimeStatus = (callback: (event: RealtimeStatusEvent) => void, once = false): (() => void) => {
+            realtimeStatusListeners.set(callback, once);
+            return () => {
+                realtimeStatusListeners.delete(callback);
+            };
+        };
+
+        const setRealtimeStatus = (status: RealtimeStatus, details: Pick<RealtimeStatusEvent, 'error' | 'attempt' | 'retryIn'> = {}) => {
+            const previousStatus = realtimeStatus;
+            realtimeStatus = status;
+            realtimeError = details.error;
+            const event: RealtimeStatusEvent = { type: 'realtime:status', collectionName, status, previousStatus, ...details };
+            for (const [listener, once] of Array.from(realtimeStatusListeners)) {
+                if (once) realtimeStatusListeners.delete(listener);
+                listener(event);
+            }
+        };
+
+        // Realtime events are applied one after another, since upserting expanded relations is async
+        let realtimeQueue: Promise<void> = Promise.resolve();
+
+        const applyRealtimeEvents = async (events: RecordSubscription<RecordType>[]) => {
+            // Expanded relations go to their target collections first, exactly like fetched records
+            await upsertExpanded(events.filter((event) => event.action !== 'delete').map((event) => event.record));
 
             collection.utils.writeBatch(() => {
-                switch (event.action) {
-                    case 'create':
-                        collection.utils.writeInsert(event.record);
-                        break;
-                    case 'update':
-                        collection.utils.writeUpdate(event.record);
-                        break;
-                    case 'delete':
-                        if (event.record && 'id' in event.record) {
-                            collection.utils.writeDelete((event.record as { id: string }).id);
+                for (const event of events) {
+                    const id = (event.record as { id: string }).id;
+                    if (event.action === 'delete') {
+                        if (collection._state.syncedData.has(id)) {
+                            collection.utils.writeDelete(id);
                         }
-                        break;
+                    } else if (isOutOfOrder(event.record)) {
+                        logger.debug('Dropping out-of-order realtime event', { collectionName, id });
+                    } else if (event.action === 'create' && !collection._state.syncedData.has(id)) {
+                        collection.utils.writeInsert(event.record);
+                    } else {
+                        // Overwrite expand as well, so a cleared relation doesn't keep its previous expanded record
+                        const record = expandString
+                            ? { ...event.record, expand: (event.record as { expand?: object }).expand }
+                            : event.record;
+                        if (isUnchanged(record)) continue;
+                        // Upsert, since the record may not be held locally (e.g. a per-record subscription), and a
+                        // refetch may have loaded a created record before its held create event is applied
+                        collection.utils.writeUpsert(record);
+                    }
                 }
             });
         };
 
-        // Start PocketBase real-time subscription
-        const startSubscription = async () => {
-            if (isSubscribed) return;
+        // The held record already has every incoming value, e.g. after our own mutation round-tripped.
+        // Normalized expand is resolved from the target collections, so only the foreign keys are compared
+        const isUnchanged = (record: RecordType): boolean => {
+            const current = collection._state.syncedData.get((record as { id: string }).id) as Record<string, unknown> | undefined;
+            if (!current) return false;
+            return Object.entries(record).every(([key, value]) =>
+                (normalizedExpand !== undefined && key === 'expand') || jsonEquals(current[key], value)
+            );
+        };
+
+        // An update older than the held record arrived after a newer one
+        const isOutOfOrder = (record: RecordType): boolean => {
+            const incoming = (record as { updated?: unknown }).updated;
+            const current = (collection._state.syncedData.get((record as { id: string }).id) as { updated?: unknown } | undefined)?.updated;
+            return typeof incoming === 'string' && typeof current === 'string' && incoming < current;
+        };
 
-            // Create promise before starting so waiters can await it
-            if (!subscriptionPromise) {
-                subscriptionPromise = new Promise<void>((resolve) => {
-                    subscriptionResolve = resolve;
+        const queueRealtimeEvents = (events: RecordSubscription<RecordType>[]) => {
+            realtimeQueue = realtimeQueue
+                .then(() => applyRealtimeEvents(events))
+                .catch((error) => {
+                    logger.error('Failed to apply realtime events', { collectionName, count: events.length, error });
                 });
+        };
+
+        // Events collected for the next batched write (realtimeBatching), one per record id
+        const pendingEvents = new Map<string, RecordSubscription<RecordType>>();
+        let flushScheduled = false;
+
+        const flushRealtimeEvents = () => {
+            flushScheduled = false;
+            const events = Array.from(pendingEvents.values());
+            pendingEvents.clear();
+            if (events.length > 0) queueRealtimeEvents(events);
+        };
+
+        const scheduleFlush = () => {
+            if (flushScheduled) return;
+            flushScheduled = true;
+            const batching = options?.realtimeBatching;
+            // Background tabs don't run animation frames, so they flush on the timer
+            const frames = typeof requestAnimationFrame === 'function' && !(typeof document !== 'undefined' && document.hidden);
+            if (batching === 'frame' && frames) {
+                requestAnimationFrame(flushRealtimeEvents);
+            } else {
+                setTimeout(flushRealtimeEvents, typeof batching === 'number' ? batching : FRAME_FALLBACK_MS);
+            }
+        };
+
+        // Handle real-time events from PocketBase
+        const handleRealtimeEvent = (event: RecordSubscription<RecordType>) => {
+            if (!collection.utils) return;
+
+            const id = (event.record as { id: string }).id;
+            if (inFlightMutations.has(id)) {
+                const held = collapseRealtimeEvents(heldRealtimeEvents.get(id), event);
+                if (held) heldRealtimeEvents.set(id, held);
+                else heldRealtimeEvents.delete(id);
+                return;
+            }
+
+            if (!options?.realtimeBatching) {
+                queueRealtimeEvents([event]);
+                return;
+            }
+
+            const collapsed = collapseRealtimeEvents(pendingEvents.get(id), event);
+            // Re-inserted so that events are applied in the order of their last change
+            pendingEvents.delete(id);
+            if (collapsed) pendingEvents.set(id, collapsed);
+            scheduleFlush();
+        };
+
+        // The update was also delivered by the scoped subscription, so the record is still in scope
+        const isDeliveredInScope = (id: string, updated: unknown): boolean => {
+            if (typeof updated !== 'string') return false;
+            return [collection._state.syncedData.get(id), pendingEvents.get(id)?.record, heldRealtimeEvents.get(id)?.record]
+                .some((record) => {
+                    const current = (record as { updated?: unknown } | undefined)?.updated;
+                    return typeof current === 'string' && current >= updated;
+                });
+        };
+
+        // Held records whose update the scoped subscription didn't deliver, checked with the server in batches
+        const pendingScopeChecks = new Set<string>();
+        let scopeCheckScheduled = false;
+
+        // Removes the held records among `ids` that no longer match the scope
+        const removeOutOfScope = async (ids: string[], scope: string) => {
+            for (let start = 0; start < ids.length; start += SCOPE_CHECK_BATCH) {
+                const batch = ids.slice(start, start + SCOPE_CHECK_BATCH);
+                const matching = await fetchPages<{ id: string }>(pb, collectionName, {
+                    filter: combinePocketBaseFilters(batch.map((id) => `id = ${JSON.stringify(id)}`).join(' || '), scope),
+                    fields: 'id',
+                    pageSize: SCOPE_CHECK_BATCH,
+                });
+                if (scope !== subscribedScope) return;
+
+                const inScope = new Set(matching.map((record) => record.id));
+                for (const id of batch) {
+                    if (inScope.has(id) || !collection._state.syncedData.has(id)) continue;
+                    logger.debug('Record left the realtime scope', { collectionName, id });
+                    handleRealtimeEvent({ action: 'delete', record: { id } as RecordType });
+                }
+            }
+        };
+
+        const checkPendingScopeExits = async () => {
+            scopeCheckScheduled = false;
+            const scope = subscribedScope;
+            const ids = Array.from(pendingScopeChecks).filter((id) => collection._state.syncedData.has(id));
+            pendingScopeChecks.clear();
+            if (typeof scope !== 'string' || ids.length === 0) return;
+            await removeOutOfScope(ids, scope);
+        };
+
+        // PocketBase filters can't be negated, so updates that move a held record out of the scope never reach
+        // the scoped subscription. An id-only subscription to every record reports them instead: updates of
+        // held records that the scoped subscription didn't deliver are checked with the server
+        const handleScopeWatchEvent = (event: RecordSubscription<RecordType>) => {
+            const { id, updated } = event.record as { id: string; updated?: unknown };
+            if (!collection._state.syncedData.has(id)) return;
+            if (event.action === 'delete') {
+                handleRealtimeEvent(event);
+                return;
+            }
+
+            // Events of the scoped subscription that arrived first are applied by then
+            realtimeQueue.then(() => {
+                if (isDeliveredInScope(id, updated)) return;
+                pendingScopeChecks.add(id);
+                if (scopeCheckScheduled) return;
+                scopeCheckScheduled = true;
+                // Checked once the events that arrived together are queued
+                setTimeout(() => {
+                    checkPendingScopeExits().catch((error) => {
+                        logger.error('Failed to check whether records left the realtime scope', { collectionName, error });
+                    });
+                });
+            });
+        };
+
+        // Without loaded subsets an on-demand collection subscribes to every record, but only keeps the ones it
+        // holds (e.g. expanded from another collection) live
+        const handleHeldRecordEvent = (event: RecordSubscription<RecordType>) => {
+            if (collection._state.syncedData.has((event.record as { id: string }).id)) handleRealtimeEvent(event);
+        };
+
+        // Filter for the records realtime events are wanted for: the baseFilter and, for on-demand
+        // collections, the union of the loaded subsets. undefined means every record, null means none
+        const realtimeScope = (): string | undefined | null => {
+            if (!subsetFilters) return baseFilter;
+            if (subsetFilters.length === 0) return null;
+            if (subsetFilters.some((filter) => filter === undefined)) return baseFilter;
+
+            const filters = [...new Set(subsetFilters as string[])];
+            const union = filters.length === 1 ? filters[0] : filters.map((filter) => `(${filter})`).join(' || ');
+            return combinePocketBaseFilters(baseFilter, union);
+        };
+
+        // Subscribe to the records in scope, and to the held records leaving it
+        const openRealtimeSubscriptions = async (scope: string | undefined | null): Promise<() => Promise<void>> => {
+            const unsubscribers: Array<() => Promise<void>> = [];
+            const unsubscribeAll = async () => {
+                await Promise.all(unsubscribers.map((unsubscribe) => unsubscribe()));
+            };
+
+            const subscribeOptions: RecordSubscribeOptions = {};
+            if (expandString) subscribeOptions.expand = expandString;
+            if (fieldsString) subscribeOptions.fields = fieldsString;
+            // Without loaded subsets, held records are kept live within the baseFilter
+            const filter = scope === null ? baseFilter : scope;
+            if (filter) subscribeOptions.filter = filter;
+
+            try {
+                unsubscribers.push(
+                    await subscribeShared(
+                        pb,
+                        collectionName,
+                        '*',
+                        scope === null ? handleHeldRecordEvent : handleRealtimeEvent,
+                        Object.keys(subscribeOptions).length > 0 ? subscribeOptions : undefined
+                    )
+                );
+                if (scope) {
+                    unsubscribers.push(
+                        await subscribeShared(pb, collectionName, '*', handleScopeWatchEvent, { fields: 'id,updated' })
+                    );
+                }
+            } catch (error) {
+                // A retry opens them again, so don't leave a listener behind that would apply events twice
+                await unsubscribeAll().catch(() => {});
+                throw error;
             }
+            return unsubscribeAll;
+        };
 
+        // Start PocketBase real-time subscription
+        // Backoff delay for the next retry of a failed subscription
+        const nextRetryDelay = (): number => {
+            const retryIn = Math.min(RETRY_BASE_DELAY_MS * 2 ** retryAttempt, RETRY_MAX_DELAY_MS);
+            retryAttempt++;
+            return retryIn;
+        };
+
+        const startSubscription = async () => {
+            // Also skipped while a failed scope change is retried, since the previous scope is still subscribed
+            if (realtimeStatus === 'subscribing' || realtimeStatus === 'subscribed' || isSubscribed) return;
+            clearTimeout(retryTimer);
+            retryTimer = undefined;
+
+            const run = ++subscribeRun;
+            setRealtimeStatus('subscribing');
+            // Watch the connection before opening it, so its status goes through 'connecting'
+            releaseReconnects ??= watchReconnects();
             try {
-                unsubscribeFn = await pb.collection(collectionName).subscribe('*', handleRealtimeEvent);
-                isSubscribed = true;
-                logger.debug('Subscription started', { collectionName });
-                // Resolve the promise to notify waiters
-                if (subscriptionResolve) {
-                    subscriptionResolve();
+                const scope = realtimeScope();
+                const unsubscribe = await openRealtimeSubscriptions(scope);
+                if (run !== subscribeRun) {
+                    // Stopped while subscribing
+                    await unsubscribe();
+                    return;
                 }
+                unsubscribeFn = unsubscribe;
+                subscribedScope = scope;
+                isSubscribed = true;
+                retryAttempt = 0;
+                logger.debug('Subscription started', { collectionName, filter: scope });
+                setRealtimeStatus('subscribed');
+                // Subsets may have been loaded or unloaded while subscribing
+                refreshSubscriptionScope();
             } catch (error) {
-                logger.error('Failed to start subscription', { collectionName, error });
+                if (run !== subscribeRun) return;
+
+                releaseReconnects?.();
+                releaseReconnects = null;
+                const retryIn = nextRetryDelay();
+                logger.error('Failed to start subscription', { collectionName, error, retryIn });
+                setRealtimeStatus('failed', { error, attempt: retryAttempt, retryIn });
+                retryTimer = setTimeout(() => {
+                    retryTimer = undefined;
+                    startSubscription().catch(() => {});
+                }, retryIn);
             }
         };
 
+        // A failed scope change was retried successfully, or is no longer needed
+        const recoverScopeChange = () => {
+            if (realtimeStatus !== 'failed') return;
+            clearTimeout(retryTimer);
+            retryTimer = undefined;
+            retryAttempt = 0;
+            setRealtimeStatus('subscribed');
+        };
+
+        // Move the subscription to the current scope; the new one is opened before the old one is closed.
+        // The previous scope stays subscribed while a failed change is retried with backoff
+        const refreshSubscriptionScope = () => {
+            scopeUpdate = scopeUpdate
+                .then(async () => {
+                    const scope = realtimeScope();
+                    if (!isSubscribed) return;
+                    if (scope === subscribedScope) {
+                        recoverScopeChange();
+                        return;
+                    }
+
+                    let unsubscribeNext: () => Promise<void>;
+                    try {
+                        unsubscribeNext = await openRealtimeSubscriptions(scope);
+                    } catch (error) {
+                        if (!isSubscribed) return;
+
+                        const retryIn = nextRetryDelay();
+                        logger.error('Failed to update subscription scope', { collectionName, error, retryIn });
+                        setRealtimeStatus('failed', { error, attempt: retryAttempt, retryIn });
+                        clearTimeout(retryTimer);
+                        retryTimer = setTimeout(() => {
+                            retryTimer = undefined;
+                            refreshSubscriptionScope();
+                        }, retryIn);
+                        return;
+                    }
+                    if (!isSubscribed) {
+                        // Stopped while the new subscriptions were opening
+                        await unsubscribeNext();
+                        return;
+                    }
+                    const unsubscribePrevious = unsubscribeFn;
+                    unsubscribeFn = unsubscribeNext;
+                    subscribedScope = scope;
+                    logger.debug('Subscription scope changed', { collectionName, filter: scope });
+                    recoverScopeChange();
+                    await unsubscribePrevious?.();
+                })
+                .catch((error) => {
+                    logger.error('Failed to close the previous subscription scope', { collectionName, error });
+                });
+        };
+
         // Stop PocketBase real-time subscription
         const stopSubscription = async () => {
-            if (!isSubscribed || !unsubscribeFn) return;
+            clearTimeout(retryTimer);
+            retryTimer = undefined;
+            retryAttempt = 0;
+            if (realtimeStatus === 'stopped') return;
+            subscribeRun++;
+
+            const unsubscribe = unsubscribeFn;
+            unsubscribeFn = null;
+            isSubscribed = false;
+            pendingScopeChecks.clear();
+            releaseReconnects?.();
+            releaseReconnects = null;
+            setRealtimeStatus('stopped');
 
             try {
-                await unsubscribeFn();
-                unsubscribeFn = null;
-                isSubscribed = false;
-                // Reset promise for next subscription cycle
-                subscriptionPromise = null;
-                subscriptionResolve = null;
+                await unsubscribe?.();
                 logger.debug('Subscription stopped', { collectionName });
             } catch (error) {
                 logger.debug('Unsubscribe failed (expected if connection closed)', { collectionName, error });
             }
         };
 
-        // Wait for subscription to be established (for testing)
-        const waitForSubscription = async (timeout = 5000): Promise<void> => {
-            if (isSubscribed) return;
+        // Events sent while realtime was down are lost, so reconcile with the server once it is back
+        const catchUp = (reason: 'reconnect' | 'resubscribe' | 'resume') => {
+            logger.debug('Catching up on missed realtime events', { collectionName, reason });
+            pendingDeletionChecks = new Set(deltaCursors.keys());
+            collection.utils.refetch().catch((error) => {
+                logger.error('Catch-up refetch failed', { collectionName, error });
+            });
+        };
+
+        // Reconnect detection, shared by the collection-wide and per-record subscriptions
+        const connection = getConnectionMonitor(pb);
+        let reconnectWatchers = 0;
+        let stopWatchingReconnects: (() => void) | undefined;
 
-            if (!subscriptionPromise) {
-                // No subscription in progress, wait for one to start
-                await new Promise<void>((resolve) => {
-                    const checkInterval = setInterval(() => {
-                        if (subscriptionPromise) {
-                            clearInterval(checkInterval);
-                            resolve();
-                        }
-                    }, 10);
-                    setTimeout(() => {
-                        clearInterval(checkInterval);
-                        resolve();
-                    }, timeout);
+        const watchReconnects = (): (() => void) => {
+            if (reconnectWatchers++ === 0) {
+                const release = connection.retain();
+                const stopListening = connection.onEvent((event) => {
+                    if (event.type === 'connected' && event.previous === 'reconnecting') {
+                        catchUp('reconnect');
+                    }
                 });
+                stopWatchingReconnects = () => {
+                    stopListening();
+                    release();
+                };
             }
 
-            if (subscriptionPromise) {
-                await Promise.race([
-                    subscriptionPromise,
-                    new Promise<void>((_, reject) =>
-                        setTimeout(() => reject(new Error('Subscription timeout')), timeout)
-                    )
-                ]);
+            let released = false;
+            return () => {
+                if (released) return;
+                released = true;
+                if (--reconnectWatchers > 0) return;
+
+                stopWatchingReconnects?.();
+                stopWatchingReconnects = undefined;
+            };
+        };
+
+        // Per-record subscriptions, shared by every consumer of the same id
+        const recordSubscriptions = new Map<string, {
+            consumers: number;
+            unsubscribe: Promise<(() => Promise<void>) | undefined>;
+            releaseReconnects: () => void;
+        }>();
+
+        const subscribeRecord = (id: string): (() => void) => {
+            let entry = recordSubscriptions.get(id);
+            if (!entry) {
+                const subscribeOptions: RecordSubscribeOptions = {};
+                if (expandString) subscribeOptions.expand = expandString;
+                if (fieldsString) subscribeOptions.fields = fieldsString;
+
+                entry = {
+                    consumers: 0,
+                    releaseReconnects: watchReconnects(),
+                    unsubscribe: subscribeShared(pb, collectionName, id, handleRealtimeEvent, Object.keys(subscribeOptions).length > 0 ? subscribeOptions : undefined)
+                        .catch((error) => {
+                            logger.error('Failed to start record subscription', { collectionName, id, error });
+                            return undefined;
+                        }),
+                };
+                recordSubscriptions.set(id, entry);
+                logger.debug('Record subscription started', { collectionName, id });
+            }
+            entry.consumers++;
+
+            const subscription = entry;
+            let released = false;
+            return () => {
+                if (released) return;
+                released = true;
+                if (--subscription.consumers > 0) return;
+
+                recordSubscriptions.delete(id);
+                subscription.releaseReconnects();
+                subscription.unsubscribe
+                    .then((unsubscribe) => unsubscribe?.())
+                    .then(() => logger.debug('Record subscription stopped', { collectionName, id }))
+                    .catch((error) => {
+                        logger.debug('Unsubscribe failed (expected if connection closed)', { collectionName, id, error });
+                    });
+            };
+        };
+
+        // Wait for the realtime subscription to be established; rejects with the error if it fails
+        const waitForSubscription = (timeout = 5000): Promise<void> => {
+            if (realtimeStatus === 'subscribed') return Promise.resolve();
+            if (realtimeStatus === 'failed') return Promise.reject(realtimeError);
+
+            return new Promise<void>((resolve, reject) => {
+                const timer = setTimeout(() => {
+                    stopListening();
+                    reject(new Error('Subscription timeout'));
+                }, timeout);
+                const stopListening = listenRealtimeStatus((event) => {
+                    if (event.status !== 'subscribed' && event.status !== 'failed') return;
+                    clearTimeout(timer);
+                    stopListening();
+                    if (event.status === 'subscribed') resolve();
+                    else reject(event.error);
+                });
+            });
+        };
+
+        // Follow the expand target collections while this collection is in use, so that creates,
+        // updates and deletes of related records (e.g. from their realtime subscriptions) reach record.expand
+        let relationSubscriptions: Array<{ unsubscribe: () => void }> = [];
+
+        const refreshExpandReferences = (
+            path: string[],
+            changes: Array<{ type: string; key: string | number; value: object; previousValue?: object }>
+        ) => {
+            const affected = Array.from(collection._state.syncedData.values())
+                .filter((record) => isAffectedByTargetChanges(record, path, changes));
+            // Normalized records re-resolve their expand when rewritten (see withNormalizedExpand)
+            const updates = normalizedExpand
+                ? affected
+                : affected
+                    .map((record) => ({ record, patched: patchEmbeddedExpand(record, path, changes) }))
+                    .filter(({ record, patched }) => patched !== record)
+                    .map(({ patched }) => patched);
+            if (updates.length > 0) {
+                collection.utils.writeUpsert(updates);
+            }
+        };
+
+        const resolveAllExpandReferences = () => {
+            if (!normalizedExpand || relationSubscriptions.length === 0) return;
+
+            const records = Array.from(collection._state.syncedData.values());
+            if (records.length > 0) {
+                collection.utils.writeUpsert(records);
+            }
+        };
+
+        const followExpandTargets = () => {
+            if (!expandNodes || relationSubscriptions.length > 0) return;
+
+            // Nested relations are followed as well, since their copies are embedded in this collection's records
+            const follow = (nodes: Record<string, ExpandNode>, parentPath: string[]) => {
+                for (const [key, node] of Object.entries(nodes)) {
+                    const path = [...parentPath, key];
+                    if (node.children) follow(node.children, path);
+                    if ((node.target as unknown) === collection) continue;
+                    // Deletes are only reported for records the subscription has seen. Eager targets report their
+                    // current records up front; on-demand targets see related records as this collection loads them
+                    relationSubscriptions.push(
+                        node.target.subscribeChanges((changes) => refreshExpandReferences(path, changes), {
+                            includeInitialState: node.target.config?.syncMode !== 'on-demand',
+                        })
+                    );
+                    // Normalized records that fell back to embedded copies switch over once the target is loaded
+                    if (normalizedExpand && !node.target.isReady()) {
+                        node.target.onFirstReady(resolveAllExpandReferences);
+                    }
+                }
+            };
+            follow(expandNodes, []);
+
+            // Targets may have changed while nothing was following them
+            resolveAllExpandReferences();
+        };
+
+        const unfollowExpandTargets = () => {
+            for (const subscription of relationSubscriptions) {
+                subscription.unsubscribe();
             }
+            relationSubscriptions = [];
+        };
+
+        // Realtime is kept through gaps in usage shorter than the linger time (see realtimeLinger)
+        let lingerTimer: ReturnType<typeof setTimeout> | undefined;
+        // Set when realtime was torn down after the linger time, so the next subscriber catches up
+        let missedEvents = false;
+        // Realtime is paused while the page is hidden (see pauseRealtimeWhenHidden)
+        let hiddenTimer: ReturnType<typeof setTimeout> | undefined;
+        let pausedWhileHidden = false;
+
+        const stopRealtime = () => {
+            stopSubscription().catch(() => {});
+            unfollowExpandTargets();
+            missedEvents = options?.realtimeLinger !== undefined;
+            // Nothing to pause or resume once the subscription is no longer wanted
+            clearTimeout(hiddenTimer);
+            hiddenTimer = undefined;
+            pausedWhileHidden = false;
         };
 
         // Manage subscription based on collection subscriber count
-        collection.on('subscribers:change', (event: { subscriberCount: number; previousSubscriberCount: number }) => {
+        const handleSubscribersChange = (event: { subscriberCount: number; previousSubscriberCount: number }) => {
             const newCount = event.subscriberCount;
             const previousCount = event.previousSubscriberCount;
 
             if (newCount > 0 && previousCount === 0) {
-                // First subscriber - start real-time subscription
-                startSubscription().catch(() => {});
+                if (lingerTimer) {
+                    // Back within the linger time - the subscription was never stopped
+                    clearTimeout(lingerTimer);
+                    lingerTimer = undefined;
+                    return;
+                }
+                // First subscriber - start real-time subscription (unless only per-record subscriptions are used,
+                // or the page is hidden and the subscription is started once it is visible again)
+                if (!pausedWhileHidden) {
+                    if (options?.realtime !== 'records') startSubscription().catch(() => {});
+                    followExpandTargets();
+                    // Mounted in a hidden page, e.g. after a remount in a background tab
+                    armHiddenPause();
+                }
+                if (missedEvents) {
+                    missedEvents = false;
+                    catchUp('resubscribe');
+                }
             } else if (newCount === 0 && previousCount > 0) {
-                // Last subscriber removed - stop real-time subscription
-                stopSubscription().catch(() => {});
+                // Last subscriber removed - stop real-time subscription, after the linger time if configured
+                const linger = options?.realtimeLinger;
+                if (linger === 'always') return;
+                if (!linger) {
+                    stopRealtime();
+                    return;
+                }
+                lingerTimer = setTimeout(() => {
+                    lingerTimer = undefined;
+                    stopRealtime();
+                }, linger);
             }
-        });
+        };
+
+        // Auth and page listeners are only registered while the collection is in use, so a garbage
+        // collected collection isn't kept alive by them
+        let releaseAuthListener: (() => void) | undefined;
+        let releaseVisibilityListeners: (() => void) | undefined;
+
+        // Garbage collection removes every collection event listener, so listen again whenever sync starts
+        const handleSyncStart = () => {
+            collection.on('subscribers:change', handleSubscribersChange);
+            releaseAuthListener ??= listenAuthChanges();
+            releaseVisibilityListeners ??= listenVisibility();
+        };
+
+        // The collection was garbage collected: its records are gone and the next use loads them in full
+        const handleSyncCleanup = () => {
+            clearTimeout(lingerTimer);
+            lingerTimer = undefined;
+            stopRealtime();
+            missedEvents = false;
+            deltaCursors.clear();
+            pendingDeletionChecks.clear();
+            pageResults.clear();
+            ownedSubsets.clear();
+            releaseAuthListener?.();
+            releaseAuthListener = undefined;
+            releaseVisibilityListeners?.();
+            releaseVisibilityListeners = undefined;
+        };
+
+        // Followed expand targets are released as well, so their own subscriptions can stop when nothing
+        // else uses them
+        const pauseRealtime = () => {
+            hiddenTimer = undefined;
+            if (realtimeStatus === 'stopped') return;
+
+            logger.debug('Pausing realtime while the page is hidden', { collectionName });
+            pausedWhileHidden = true;
+            stopSubscription().catch(() => {});
+            unfollowExpandTargets();
+        };
+
+        const resumeRealtime = () => {
+            clearTimeout(hiddenTimer);
+            hiddenTimer = undefined;
+            if (!pausedWhileHidden) return;
+
+            pausedWhileHidden = false;
+            logger.debug('Resuming realtime now that the page is visible', { collectionName });
+            startSubscription().catch(() => {});
+            followExpandTargets();
+            catchUp('resume');
+        };
+
+        const armHiddenPause = () => {
+            const pauseAfter = options?.pauseRealtimeWhenHidden;
+            if (pauseAfter === undefined || typeof document === 'undefined' || document.visibilityState !== 'hidden') return;
+            if (!hiddenTimer && !pausedWhileHidden) hiddenTimer = setTimeout(pauseRealtime, pauseAfter);
+        };
+
+        // Close the collection-wide subscription of background tabs, and reconcile once they are visible again
+        const listenVisibility = (): (() => void) | undefined => {
+            const pauseAfter = options?.pauseRealtimeWhenHidden;
+            if (pauseAfter === undefined || typeof document === 'undefined') return undefined;
+
+            const handleVisibilityChange = () => {
+                if (document.visibilityState === 'visible') {
+                    resumeRealtime();
+                } else {
+                    armHiddenPause();
+                }
+            };
+            document.addEventListener('visibilitychange', handleVisibilityChange);
+            // Some browsers focus a window before reporting it visible
+            if (typeof window !== 'undefined') window.addEventListener('focus', resumeRealtime);
+            return () => {
+                document.removeEventListener('visibilitychange', handleVisibilityChange);
+                if (typeof window !== 'undefined') window.removeEventListener('focus', resumeRealtime);
+            };
+        };
+
+        // Remove every synced record, e.g. so one user's data never shows for the next
+        const clearRecords = () => {
+            const ids = Array.from(collection._state.syncedData.keys());
+            if (ids.length > 0) {
+                collection.utils.writeDelete(ids);
+            }
+        };
+
+        // Re-sync when the authenticated user changes, since list rules may return different records
+        const handleAuthChange = async (userId: string | undefined) => {
+            const policy = options?.authChangePolicy ?? 'reset';
+            // Nothing has been loaded yet (or anymore), so there is nothing to re-sync
+            if (policy === 'ignore' || collection.status === 'idle' || collection.status === 'cleaned-up') return;
+
+            logger.debug('Auth changed, re-syncing', { collectionName, policy, loggedIn: !!userId });
+            deltaCursors.clear();
+            queryClient.removeQueries({ queryKey: [collectionName], type: 'inactive' });
+            if (!userId || policy === 'reset') {
+                clearRecords();
+            }
+
+            // Subscriptions are authorized when submitted, so submit them with the new credentials before
+            // refetching, or events for the previous user could arrive after the refetch
+            await resubmitSubscriptions(pb).catch((error) => {
+                logger.error('Failed to resubmit realtime subscriptions', { collectionName, error });
+            });
+
+            await collection.utils.refetch();
+        };
+
+        // The records loaded from now on belong to the current user
+        let authUserId: string | undefined;
+        const listenAuthChanges = (): (() => void) => {
+            authUserId = authRecordId(pb);
+            return pb.authStore.onChange(() => {
+                const userId = authRecordId(pb);
+                // Token refreshes fire onChange too; only a different user requires a re-sync
+                if (userId === authUserId) return;
+                authUserId = userId;
+
+                handleAuthChange(userId).catch((error) => {
+                    logger.error('Failed to re-sync after auth change', { collectionName, error });
+                });
+            });
+        };
+
+        // Queries loading the pages and full records requested so far, by request
+        const ownedSubsets = new Map<string, ExtendedLoadSubsetOptions>();
+        let ownedLoadCount = 0;
+
+        // Load a page or full record through a query of its own, which owns the rows it loads so that they stay
+        // when other subsets are refetched or unloaded. query-db-collection keys subset queries by their
+        // predicates, so each load gets a predicate of its own; the query function recognizes it by `page` or
+        // `fullRecordId`. Requesting the same page again replaces its query, dropping the rows no longer in it.
+        // Resolves to false when there is no query to load through because the collection holds every record
+        // already (eager, or progressive after the full load)
+        const loadOwnedSubset = async (request: Pick<ExtendedLoadSubsetOptions, 'page' | 'fullRecordId'>): Promise<boolean> => {
+            const key = JSON.stringify(request);
+            const loadOptions: ExtendedLoadSubsetOptions = {
+                ...request,
+                where: new IR.Func<boolean>('pbtsdbOwnedLoad', [new IR.Value(key), new IR.Value(++ownedLoadCount)]),
+            };
+
+            collection.startSyncImmediate();
+            const loading = collection._sync.loadSubset(loadOptions);
+            if (loading === true) return false;
+            try {
+                await loading;
+            } catch (error) {
+                collection._sync.unloadSubset(loadOptions);
+                throw error;
+            }
+
+            const previous = ownedSubsets.get(key);
+            ownedSubsets.set(key, loadOptions);
+            if (previous) collection._sync.unloadSubset(previous);
+            return true;
+        };
 
-        // Add collectionName and subscription helpers
+        // Load one page (by offset or cursor) without touching previously loaded pages
+        const loadPage = async (request: PageRequest<RecordType> = {}): Promise<PageResult<RecordType>> => {
+            const { filter, sort, after } = request;
+            if (after && !sort) {
+                throw new Error(`loadPage on '${collectionName}' requires a sort when paginating with a cursor`);
+            }
+            const query: PageQuery = {
+                page: after ? 1 : request.page ?? 1,
+                perPage: request.perPage ?? options?.pageSize ?? DEFAULT_PAGE_SIZE,
+                filter: filter || undefined,
+                sort,
+                cursor: after && sort ? buildCursorFilter(sort, after) : undefined,
+            };
+
+            if (await loadOwnedSubset({ page: query })) {
+                const result = pageResults.get(JSON.stringify(query));
+                if (result) return result;
+            }
+
+            const result = await fetchPage(query);
+            if (result.items.length > 0) {
+                collection.utils.writeUpsert(result.items);
+            }
+            return result;
+        };
+
+        // Fetch the unprojected record and merge it over the projected one
+        const loadFullRecord = async (id: string): Promise<RecordType> => {
+            if (await loadOwnedSubset({ fullRecordId: id })) {
+                const record = collection._state.syncedData.get(id) as RecordType | undefined;
+                if (record) return record;
+            }
+
+            const record = await fetchFullRecord(id);
+            collection.utils.writeUpsert(record);
+            return record;
+        };
+
+        // Count on the server; only the total is needed, so a single id is requested
+        const count = async (where?: RecordFilter<RecordType>): Promise<number> => {
+            const result = await pb.collection(collectionName).getList(1, 1, {
+                filter: combinePocketBaseFilters(baseFilter, resolveRecordFilter(where)),
+                fields: 'id',
+                skipTotal: false,
+            });
+            return result.totalItems;
+        };
+
+        // Keep a count live by recounting on matching realtime create/delete events
+        const watchCount = (
+            where: RecordFilter<RecordType> | undefined,
+            listener: (count: number) => void,
+            onError?: (error: unknown) => void
+        ): (() => void) => {
+            const filter = combinePocketBaseFilters(baseFilter, resolveRecordFilter(where));
+            let stopped = false;
+            let latestRequest = 0;
+            let recountTimer: ReturnType<typeof setTimeout> | undefined;
+            let unsubscribe: (() => Promise<void>) | undefined;
+
+            const recount = () => {
+                recountTimer = undefined;
+                const request = ++latestRequest;
+                count(where).then(
+                    (total) => {
+                        // Drop results that were overtaken by a newer recount
+                        if (!stopped && request === latestRequest) listener(total);
+                    },
+                    (error) => {
+                        if (stopped) return;
+                        logger.error('Failed to count records', { collectionName, error });
+                        onError?.(error);
+                    }
+                );
+            };
+
+            // Bulk writes send an event per record, so they are counted once they settle
+            const scheduleRecount = () => {
+                if (recountTimer) return;
+                const batching = options?.realtimeBatching;
+                recountTimer = setTimeout(recount, typeof batching === 'number' ? batching : RECOUNT_DELAY_MS);
+            };
+
+            recount();
+            subscribeShared(
+                pb,
+                collectionName,
+                '*',
+                (event) => {
+                    if (event.action === 'create' || event.action === 'delete') scheduleRecount();
+                },
+                filter ? { fields: 'id', filter } : { fields: 'id' }
+            )
+                .then((unsubscribeFn) => {
+                    if (stopped) {
+                        unsubscribeFn().catch(() => {});
+                    } else {
+                        unsubscribe = unsubscribeFn;
+                    }
+                })
+                .catch((error) => {
+                    logger.error('Failed to start count subscription', { collectionName, error });
+                    onError?.(error);
+                });
+
+            return () => {
+                stopped = true;
+                clearTimeout(recountTimer);
+                unsubscribe?.().catch(() => {});
+            };
+        };
+
+        // Realtime status events go to our own listeners, every other event to TanStack's
+        type EventCallback = (payload: unknown) => void;
+        type EventMethod = (event: string, callback: EventCallback) => unknown;
+        const collectionOn = collection.on.bind(collection) as EventMethod;
+        const collectionOnce = collection.once.bind(collection) as EventMethod;
+        const collectionOff = collection.off.bind(collection) as EventMethod;
+
+        // Add collectionName, subscription, count, pagination and projection helpers
         Object.assign(collection, {
             collectionName,
+            on: (event: string, callback: EventCallback) => event === 'realtime:status'
+                ? listenRealtimeStatus(callback)
+                : collectionOn(event, callback),
+            once: (event: string, callback: EventCallback) => event === 'realtime:status'
+                ? listenRealtimeStatus(callback, true)
+                : collectionOnce(event, callback),
+            off: (event: string, callback: EventCallback) => {
+                if (event === 'realtime:status') realtimeStatusListeners.delete(callback);
+                else collectionOff(event, callback);
+            },
             waitForSubscription,
             isSubscribed: () => isSubscribed,
+            realtimeStatus: () => realtimeStatus,
+            subscribeRecord,
+            count,
+            watchCount,
+            loadPage,
+            loadFullRecord,
         });
 
         return collection as any;
@@ -0,0 +1,185 @@
+import type PocketBase from 'pocketbase';
+import { logger } from './logger';
+
+/**
+ * State of the realtime (SSE) connection of a PocketBase client.
+ * - `connecting`: a subscription is opening the connection for the first time
+ * - `connected`: the connection is established
+ * - `reconnecting`: the connection dropped and the SDK is trying to restore it
+ * - `disconnected`: no connection, either because nothing is subscribed or because connecting failed
+ */
+export type ConnectionState = 'connecting' | 'connected' | 'reconnecting' | 'disconnected';
+
+/**
+ * Snapshot of the realtime connection status. A new object is created on every change.
+ */
+export interface ConnectionStatus {
+    state: ConnectionState;
+    /** When the connection was last established, or null if it never was */
+    lastConnectedAt: Date | null;
+    /** Error from the last failed connection attempt; cleared once connected */
+    error: unknown;
+}
+
+/**
+ * Emitted on every connection state change, e.g. to forward to telemetry.
+ */
+export interface ConnectionEvent {
+    /** The state that was entered */
+    type: ConnectionState;
+    /** The state that was left */
+    previous: ConnectionState;
+    /** When the change happened */
+    at: Date;
+    /** Realtime client id assigned by the server, for `connected` events */
+    clientId?: string;
+    /** Milliseconds the connection was down, for `connected` events that follow `reconnecting` */
+    downtime?: number;
+    /** The failure, for `disconnected` events caused by a failed connection attempt */
+    error?: unknown;
+}
+
+/**
+ * Realtime connection status shared by every collection created from the same PocketBase client.
+ */
+export interface ConnectionStatusSource {
+    /** Returns the current status snapshot */
+    getStatus: () => ConnectionStatus;
+    /** Calls the listener with the new snapshot on every change. Returns an unsubscribe function. */
+    subscribe: (listener: (status: ConnectionStatus) => void) => () => void;
+    /** Calls the listener with every state change event. Returns an unsubscribe function. */
+    onEvent: (listener: (event: ConnectionEvent) => void) => () => void;
+}
+
+/**
+ * Connection status source with the hooks used by collections.
+ * @internal
+ */
+interface ConnectionMonitor extends ConnectionStatusSource {
+    /** Watches the connection while the returned release function hasn't been called */
+    retain: () => () => void;
+}
+
+const monitors = new WeakMap<PocketBase, ConnectionMonitor>();
+
+function createConnectionMonitor(pb: PocketBase): ConnectionMonitor {
+    let status: ConnectionStatus = {
+        state: pb.realtime.isConnected ? 'connected' : 'disconnected',
+        lastConnectedAt: null,
+        error: null,
+    };
+    let droppedAt: number | undefined;
+    const statusListeners = new Set<(status: ConnectionStatus) => void>();
+    const eventListeners = new Set<(event: ConnectionEvent) => void>();
+
+    const transition = (state: ConnectionState, details: Partial<ConnectionEvent> = {}) => {
+        const previous = status.state;
+        const at = new Date();
+        status = {
+            state,
+            lastConnectedAt: state === 'connected' ? at : status.lastConnectedAt,
+            error: state === 'connected' ? null : (details.error ?? status.error),
+        };
+        logger.debug('Realtime connection status changed', { previous, state });
+
+        const event: ConnectionEvent = { type: state, previous, at, ...details };
+        for (const listener of statusListeners) listener(status);
+        for (const listener of eventListeners) listener(event);
+    };
+
+    // The SDK only exposes a single disconnect hook, so chain any handler set before this one
+    const previousOnDisconnect = pb.realtime.onDisconnect;
+    pb.realtime.onDisconnect = (activeSubscriptions) => {
+        previousOnDisconnect?.(activeSubscriptions);
+        // Subscriptions left over means the connection was interrupted and the SDK will reconnect
+        if (activeSubscriptions.length > 0) {
+            droppedAt = Date.now();
+            transition('reconnecting');
+        } else if (status.state !== 'disconnected') {
+            transition('disconnected');
+        }
+    };
+
+    let retainers = 0;
+    let unsubscribe: Promise<(() => Promise<void>) | undefined> | undefined;
+
+    const retain = (): (() => void) => {
+        if (retainers++ === 0) {
+            if (!pb.realtime.isConnected) transition('connecting');
+
+            // PB_CONNECT fires on the initial connect and after every reconnect
+            unsubscribe = pb.realtime
+                .subscribe('PB_CONNECT', (event: { clientId?: string }) => {
+                    const downtime = status.state === 'reconnecting' && droppedAt !== undefined
+                        ? Date.now() - droppedAt
+                        : undefined;
+                    droppedAt = undefined;
+                    transition('connected', { clientId: event.clientId, downtime });
+                })
+                .catch((error) => {
+                    logger.error('Failed to connect to realtime', { error });
+                    transition('disconnected', { error });
+                    return undefined;
+                });
+        }
+
+        let released = false;
+        return () => {
+            if (released) return;
+            released = true;
+            if (--retainers > 0) return;
+
+            unsubscribe
+                ?.then((stop) => stop?.())
+                .catch(() => {});
+            unsubscribe = undefined;
+        };
+    };
+
+    return {
+        getStatus: () => status,
+        subscribe: (listener) => {
+            statusListeners.add(listener);
+            return () => {
+                statusListeners.delete(listener);
+            };
+        },
+        onEvent: (listener) => {
+            eventListeners.add(listener);
+            return () => {
+                eventListeners.delete(listener);
+            };
+        },
+        retain,
+    };
+}
+
+/**
+ * Returns the connection monitor of a PocketBase client, creating it on first use.
+ * @internal
+ */
+export function getConnectionMonitor(pb: PocketBase): ConnectionMonitor {
+    let monitor = monitors.get(pb);
+    if (!monitor) {
+        monitor = createConnectionMonitor(pb);
+        monitors.set(pb, monitor);
+    }
+    return monitor;
+}
+
+/**
+ * Returns the realtime connection status shared by all collections created from a PocketBase client.
+ * The status is tracked while any of those collections holds a realtime subscription.
+ *
+ * @example
+ * ```typescript
+ * const connection = getConnectionStatus(pb);
+ * connection.onEvent((event) => {
+ *     analytics.track('realtime_connection', { state: event.type, downtime: event.downtime });
+ * });
+ * ```
+ */
+export function getConnectionStatus(pb: PocketBase): ConnectionStatusSource {
+    const { getStatus, subscribe, onEvent } = getConnectionMonitor(pb);
+    return { getStatus, subscribe, onEvent };
+}
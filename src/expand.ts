@@ -0,0 +1,349 @@
+import type { ExpandTargetCollection } from './types';
+import { logger } from './logger';
+
+/**
+ * Normalized expand config: one node per relation, with the relations expanded below it.
+ */
+export interface ExpandNode {
+    target: ExpandTargetCollection;
+    children?: Record<string, ExpandNode>;
+}
+
+type RecordWithExpand = { expand?: Record<string, object | object[]> };
+
+// Expanded records waiting for their target collection to become ready, keyed by record id
+const pendingUpserts = new WeakMap<ExpandTargetCollection, Map<string, object>>();
+
+function updatedOf(record: object | undefined): string | undefined {
+    const updated = (record as { updated?: unknown } | undefined)?.updated;
+    return typeof updated === 'string' ? updated : undefined;
+}
+
+// Upserts the records queued for a target that is now ready
+function flushPendingUpserts(target: ExpandTargetCollection): void {
+    const queued = pendingUpserts.get(target);
+    pendingUpserts.delete(target);
+    if (!queued || !target.utils) return;
+
+    const fresh = Array.from(queued.values()).filter((record) => {
+        const current = updatedOf(target.get((record as { id: string }).id));
+        const incoming = updatedOf(record);
+        return !current || !incoming || incoming > current;
+    });
+    if (fresh.length > 0) target.utils.writeUpsert(fresh);
+}
+
+/**
+ * Queues expanded records until the target collection is ready, then upserts them.
+ * Queued records that are older than what the target loaded itself are skipped.
+ */
+function bufferUntilReady(target: ExpandTargetCollection, records: object[]): void {
+    let pending = pendingUpserts.get(target);
+    if (!pending) {
+        pending = new Map();
+        pendingUpserts.set(target, pending);
+    }
+    for (const record of records) {
+        pending.set((record as { id: string }).id, record);
+    }
+    // Registered for every batch, since cleaning up the target drops its ready callbacks; the first
+    // one to run upserts the whole queue
+    target.onFirstReady(() => flushPendingUpserts(target));
+}
+
+function isNestedEntry(value: object): value is { collection: ExpandTargetCollection; expand?: Record<string, object> } {
+    return 'collection' in value && !('_sync' in value);
+}
+
+/**
+ * Converts an expand config (plain target collections or nested `{ collection, expand }` entries)
+ * into a tree of ExpandNodes. Returns undefined when nothing is expanded.
+ */
+export function normalizeExpandConfig(config: Record<string, object> | undefined): Record<string, ExpandNode> | undefined {
+    if (!config) return undefined;
+
+    const nodes: Record<string, ExpandNode> = {};
+    for (const [key, value] of Object.entries(config)) {
+        if (!value) continue;
+        nodes[key] = isNestedEntry(value)
+            ? { target: value.collection, children: normalizeExpandConfig(value.expand) }
+            : { target: value as ExpandTargetCollection };
+    }
+    return Object.keys(nodes).length > 0 ? nodes : undefined;
+}
+
+/**
+ * Builds the PocketBase `expand` parameter from an expand tree using dotted paths.
+ *
+ * @example
+ * buildExpandString({ tag: {...}, book: { children: { author: {...} } } }) // => "book.author,tag"
+ */
+export function buildExpandString(nodes: Record<string, ExpandNode> | undefined): string | undefined {
+    if (!nodes) return undefined;
+
+    const paths: string[] = [];
+    const collect = (level: Record<string, ExpandNode>, prefix: string) => {
+        for (const [key, node] of Object.entries(level)) {
+            const path = prefix + key;
+            if (node.children) {
+                collect(node.children, `${path}.`);
+            } else {
+                paths.push(path);
+            }
+        }
+    };
+    collect(nodes, '');
+    return paths.sort().join(',');
+}
+
+/**
+ * Upserts expanded relation records into their target collections, walking nested levels
+ * so that every level lands in its own collection.
+ */
+export async function upsertExpandedRecords(
+    collectionName: string,
+    records: object[],
+    nodes: Record<string, ExpandNode> | undefined
+): Promise<void> {
+    if (!nodes) return;
+
+    for (const record of records) {
+        const expandData = (record as RecordWithExpand).expand;
+        if (!expandData) continue;
+
+        for (const [key, value] of Object.entries(expandData)) {
+            const node = nodes[key];
+            if (!node) continue;
+
+            const values = Array.isArray(value) ? value : [value];
+            await upsertExpandedRecords(collectionName, values, node.children);
+
+            const targetStore = node.target;
+            if (!targetStore.utils) continue;
+            if (!targetStore.isReady()) {
+                if (targetStore.config?.syncMode === 'on-demand') {
+                    await targetStore._sync.startSync();
+                } else {
+                    logger.debug('Buffering expanded records until target collection is ready', {
+                        collectionName,
+                        relation: key,
+                        count: values.length,
+                    });
+                    bufferUntilReady(targetStore, values);
+                    continue
+                }
+            }
+            targetStore.utils.writeUpsert(values);
+        }
+    }
+}
+
+/**
+ * Returns the referencing field of a back-relation key, e.g. `books_via_author` => `author`.
+ * Returns undefined for forward relations.
+ */
+export function backRelationField(key: string): string | undefined {
+    return /_via_(.+)$/.exec(key)?.[1];
+}
+
+function idsOf(value: unknown): string[] {
+    if (Array.isArray(value)) return value.filter((id): id is string => typeof id === 'string' && id !== '');
+    return typeof value === 'string' && value !== '' ? [value] : [];
+}
+
+function embeddedRecords(value: object | object[] | undefined): object[] {
+    return value === undefined ? [] : Array.isArray(value) ? value : [value];
+}
+
+function recordsById(value: object | object[] | undefined): Map<string, object> {
+    return new Map(embeddedRecords(value).map((record) => [(record as { id: string }).id, record]));
+}
+
+/**
+ * Returns, for a target collection and a back-relation field, the ids of the target records
+ * referencing each record id.
+ */
+export type BackRelationIndex = (target: ExpandTargetCollection, field: string) => Map<string, string[]>;
+
+/**
+ * Creates a back-relation index that scans each target collection once, on first use. Create one per
+ * batch of writes, since it doesn't follow later changes to the targets.
+ */
+export function createBackRelationIndex(): BackRelationIndex {
+    const indexes = new Map<ExpandTargetCollection, Map<string, Map<string, string[]>>>();
+    return (target, field) => {
+        let byField = indexes.get(target);
+        if (!byField) {
+            byField = new Map();
+            indexes.set(target, byField);
+        }
+        let index = byField.get(field);
+        if (!index) {
+            index = new Map();
+            for (const candidate of target.values()) {
+                const candidateId = (candidate as { id: string }).id;
+                for (const id of idsOf((candidate as Record<string, unknown>)[field])) {
+                    const referencing = index.get(id);
+                    if (referencing) referencing.push(candidateId);
+                    else index.set(id, [candidateId]);
+                }
+            }
+            byField.set(field, index);
+        }
+        return index;
+    };
+}
+
+/**
+ * Resolves one relation of a record from the records held by the target collection.
+ * Until the target is ready, records it doesn't hold yet fall back to the copy in `current`.
+ */
+function resolveRelation(
+    record: Record<string, unknown>,
+    key: string,
+    target: ExpandTargetCollection,
+    current: object | object[] | undefined,
+    backRelations: BackRelationIndex
+): object | object[] | undefined {
+    const fallback = target.isReady() ? new Map<string, object>() : recordsById(current);
+    const lookup = (id: string) => target.get(id) ?? fallback.get(id);
+
+    const field = backRelationField(key);
+    if (field) {
+        const ids = new Set([...fallback.keys(), ...(backRelations(target, field).get(record.id as string) ?? [])]);
+        const related = Array.from(ids)
+            .map(lookup)
+            .filter((candidate): candidate is object =>
+                candidate !== undefined && idsOf((candidate as Record<string, unknown>)[field]).includes(record.id as string)
+            );
+        return related.length > 0 ? related : undefined;
+    }
+
+    const value = record[key];
+    if (Array.isArray(value)) {
+        const related = idsOf(value).map(lookup).filter((candidate): candidate is object => candidate !== undefined);
+        return related.length > 0 ? related : undefined;
+    }
+    const [id] = idsOf(value);
+    return id ? lookup(id) : undefined;
+}
+
+/**
+ * Replaces the embedded copies in `record.expand` with the records held by the target collections,
+ * so expanded relations share their target's objects instead of duplicating them.
+ * Nested relations are resolved the same way within copies of the related records.
+ */
+export function resolveExpandReferences<T extends object>(
+    record: T,
+    nodes: Record<string, ExpandNode>,
+    backRelations: BackRelationIndex = createBackRelationIndex()
+): T {
+    const { expand: current, ...rest } = record as T & RecordWithExpand;
+    const expand: Record<string, object | object[]> = {};
+    for (const [key, node] of Object.entries(nodes)) {
+        const resolved = resolveRelation(record as Record<string, unknown>, key, node.target, current?.[key], backRelations);
+        if (resolved === undefined) continue;
+
+        const { children } = node;
+        if (!children) {
+            expand[key] = resolved;
+            continue;
+        }
+        const resolveNested = (related: object) => resolveExpandReferences(related, children, backRelations);
+        expand[key] = Array.isArray(resolved) ? resolved.map(resolveNested) : resolveNested(resolved);
+    }
+    // An explicit undefined so that merging writes also clear relations that no longer resolve
+    return { ...rest, expand: Object.keys(expand).length > 0 ? expand : undefined } as T;
+}
+
+/**
+ * Checks whether changes to records of a relation's target collection affect a record's expand.
+ * `path` leads to the relation through the nested ones above it, e.g. `['book', 'author']` for
+ * `expand.book.expand.author`.
+ */
+export function isAffectedByTargetChanges(
+    record: object,
+    path: readonly string[],
+    changes: Array<{ key: string | number; value: object; previousValue?: object }>
+): boolean {
+    const [key, ...nested] = path;
+    if (nested.length > 0) {
+        return embeddedRecords((record as RecordWithExpand).expand?.[key])
+            .some((related) => isAffectedByTargetChanges(related, nested, changes));
+    }
+
+    const field = backRelationField(key);
+    if (!field) {
+        const changedIds = new Set(changes.map((change) => String(change.key)));
+        return idsOf((record as Record<string, unknown>)[key]).some((id) => changedIds.has(id));
+    }
+
+    const id = (record as { id: string }).id;
+    const related = recordsById((record as RecordWithExpand).expand?.[key]);
+    return changes.some((change) =>
+        related.has(String(change.key))
+        || idsOf((change.value as Record<string, unknown>)[field]).includes(id)
+        || idsOf((change.previousValue as Record<string, unknown> | undefined)?.[field]).includes(id)
+    );
+}
+
+/**
+ * Patches the embedded copies of a relation (see isAffectedByTargetChanges for `path`) with changes to
+ * its target collection: updated related records are merged over their copies, deleted ones are removed,
+ * and records that start or stop referencing the expanded record are added to or removed from back-relations.
+ * Returns the record itself when nothing changed.
+ */
+export function patchEmbeddedExpand<T extends object>(
+    record: T,
+    path: readonly string[],
+    changes: Array<{ type: string; key: string | number; value: object }>
+): T {
+    const [key, ...nested] = path;
+    const expand = (record as T & RecordWithExpand).expand;
+    if (nested.length > 0) {
+        const value = expand?.[key];
+        let changed = false;
+        const patchNested = (related: object) => {
+            const patched = patchEmbeddedExpand(related, nested, changes);
+            if (patched !== related) changed = true;
+            return patched;
+        };
+        const patched = Array.isArray(value) ? value.map(patchNested) : value && patchNested(value);
+        return changed ? { ...record, expand: { ...expand, [key]: patched } } : record;
+    }
+
+    const field = backRelationField(key);
+    const related = recordsById(expand?.[key]);
+    const id = (record as { id: string }).id;
+    let changed = false;
+
+    for (const change of changes) {
+        const changedId = String(change.key);
+        const value = change.value as Record<string, unknown>;
+        const references = field
+            ? idsOf(value[field]).includes(id)
+            : idsOf((record as Record<string, unknown>)[key]).includes(changedId);
+        const existing = related.get(changedId) as Record<string, unknown> | undefined;
+
+        if (change.type === 'delete' || !references) {
+            changed = related.delete(changedId) || changed;
+        } else if (!existing || Object.keys(value).some((name) => existing[name] !== value[name])) {
+            related.set(changedId, { ...existing, ...value });
+            changed = true;
+        }
+    }
+    if (!changed) return record;
+
+    let patched: object | object[] | undefined;
+    if (field) {
+        patched = related.size > 0 ? Array.from(related.values()) : undefined;
+    } else {
+        const value = (record as Record<string, unknown>)[key];
+        const ordered = idsOf(value).map((relatedId) => related.get(relatedId)).filter((r): r is object => r !== undefined);
+        patched = Array.isArray(value) ? (ordered.length > 0 ? ordered : undefined) : ordered[0];
+    }
+
+    const { [key]: _previous, ...others } = expand ?? {};
+    const next = patched === undefined ? others : { ...others, [key]: patched };
+    return { ...record, expand: Object.keys(next).length > 0 ? next : undefined };
+}
@@ -11,11 +11,23 @@ export { createCollection } from './collection';
 
 export {
     createReactProvider,
+    useCount,
+    useRecordSubscription,
+    useConnectionStatus,
     type ReactProviderResult,
+    type UseCountResult,
 } from './react.js';
 
 export { setLogger, resetLogger, type Logger } from './logger';
 
+export {
+    getConnectionStatus,
+    type ConnectionState,
+    type ConnectionStatus,
+    type ConnectionEvent,
+    type ConnectionStatusSource,
+} from './connection';
+
 export { newRecordId } from './util';
 
 export type {
@@ -28,4 +40,10 @@ export type {
     ExcludeUndefined,
     RelationAsCollection,
     OmittableFields,
+    LoadProgress,
+    RealtimeStatus,
+    RealtimeStatusEvent,
+    PageRequest,
+    PageResult,
+    RecordFilter,
 } from './types';
@@ -1,5 +1,5 @@
 import { parseWhereExpression, parseOrderByExpression, type FieldPath, type ParsedOrderBy } from '@tanstack/db';
-import type { IR } from '@tanstack/db';
+import type { IR, Ref } from '@tanstack/db';
 
 type BasicExpression<T = any> = IR.BasicExpression<T>;
 
@@ -94,6 +94,60 @@ export function convertToPocketBaseFilter(
     return result || undefined;
 }
 
+export function combinePocketBaseFilters(
+    ...filters: Array<string | undefined | null>
+): string | undefined {
+    const nonEmpty = filters.filter((f): f is string => !!f && f.trim() !== '');
+    if (nonEmpty.length === 0) {
+        return undefined;
+    }
+    if (nonEmpty.length === 1) {
+        return nonEmpty[0];
+    }
+    return nonEmpty.map(f => `(${f})`).join(' && ');
+}
+
+function createFieldRef(path: string[]): object {
+    // Mirrors the ref proxies TanStack DB passes to where() callbacks, so eq()/gt()/... accept it
+    return new Proxy({}, {
+        get(_target, prop) {
+            if (prop === '__refProxy') return true;
+            if (prop === '__path') return path;
+            if (typeof prop === 'symbol' || prop === '__type') return undefined;
+            return createFieldRef([...path, prop]);
+        },
+    });
+}
+
+export function convertWhereBuilderToPocketBaseFilter<T>(
+    builder: (record: Ref<T>) => BasicExpression<boolean>
+): string | undefined {
+    return convertToPocketBaseFilter(builder(createFieldRef([]) as Ref<T>));
+}
+
+export function buildCursorFilter(
+    sort: string,
+    after: Record<string, unknown>
+): string {
+    const fields = sort
+        .split(',')
+        .map(f => f.trim())
+        .filter(Boolean)
+        .map(f => (f.startsWith('-') ? { field: f.slice(1), op: '<' } : { field: f.replace(/^\+/, ''), op: '>' }));
+
+    if (fields.length === 0) {
+        throw new Error('A sort is required to build a cursor filter');
+    }
+
+    // Keyset condition: (a > x) || (a = x && b > y) || ...
+    const conditions = fields.map(({ field, op }, i) => {
+        const equalities = fields.slice(0, i).map(prev => `${prev.field} = ${escapeValue(after[prev.field] ?? null)}`);
+        return [...equalities, `${field} ${op} ${escapeValue(after[field] ?? null)}`].join(' && ');
+    });
+
+    return conditions.length === 1 ? conditions[0] : conditions.map(c => `(${c})`).join(' || ');
+}
+
 export function convertToPocketBaseSort(
     orderBy: IR.OrderBy | undefined | null
 ): string | undefined {
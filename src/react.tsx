@@ -1,4 +1,8 @@
-import React, { createContext, useContext, type ReactNode } from 'react';
+import React, { createContext, useContext, useEffect, useState, useSyncExternalStore, type ReactNode } from 'react';
+import type PocketBase from 'pocketbase';
+import { getConnectionStatus, type ConnectionStatus } from './connection';
+import { convertWhereBuilderToPocketBaseFilter } from './pocketbase-query-converter';
+import type { RecordFilter } from './types';
 
 /**
  * UseStore hook type for variadic collection access.
@@ -154,3 +158,136 @@ export function createReactProvider<CollectionsMap extends Record<string, any>>(
         useStore: useStore as UseStoreFn<CollectionsMap>,
     };
 }
+
+/**
+ * Result returned by the useCount hook.
+ */
+export interface UseCountResult {
+    /** Number of matching records, or undefined until the first count arrives */
+    count: number | undefined;
+    /** True until the first count arrives */
+    isLoading: boolean;
+    /** Error from the last count or subscription attempt, if any */
+    error: unknown;
+}
+
+/**
+ * Minimal collection shape needed by useCount.
+ * @internal
+ */
+interface CountableCollection<T> {
+    watchCount: (
+        where: RecordFilter<T> | undefined,
+        listener: (count: number) => void,
+        onError?: (error: unknown) => void
+    ) => () => void;
+}
+
+/**
+ * Counts the records matching a filter on the server, without loading them into the collection.
+ * The count stays live: it is refreshed whenever a matching record is created or deleted.
+ *
+ * @param collection - Collection created by createCollection
+ * @param where - Optional PocketBase filter string or TanStack DB where-builder
+ *
+ * @example
+ * ```tsx
+ * function FictionCount() {
+ *     const [books] = useStore('books');
+ *     const { count, isLoading } = useCount(books, (book) => eq(book.genre, 'Fiction'));
+ *
+ *     return <span>{isLoading ? '…' : `${count} fiction books`}</span>;
+ * }
+ * ```
+ */
+export function useCount<T>(
+    collection: CountableCollection<T>,
+    where?: RecordFilter<T>
+): UseCountResult {
+    const [state, setState] = useState<UseCountResult>({ count: undefined, isLoading: true, error: undefined });
+
+    // Where-builders are resolved on every render so the count restarts only when the filter itself changes
+    const filter = typeof where === 'function' ? convertWhereBuilderToPocketBaseFilter(where) : where || undefined;
+
+    useEffect(() => {
+        setState((previous) => ({ ...previous, isLoading: previous.count === undefined }));
+
+        return collection.watchCount(
+            filter,
+            (count) => setState({ count, isLoading: false, error: undefined }),
+            (error) => setState((previous) => ({ ...previous, isLoading: false, error }))
+        );
+    }, [collection, filter]);
+
+    return state;
+}
+
+/**
+ * Minimal collection shape needed by useRecordSubscription.
+ * @internal
+ */
+interface RecordSubscribableCollection {
+    subscribeRecord: (id: string) => () => void;
+}
+
+/**
+ * Keeps the given records live with per-record realtime subscriptions while the component is mounted.
+ * Subscriptions are shared with other consumers of the same records and closed when the last one unmounts.
+ * Pair with `realtime: 'records'` to keep heavy collections live without a collection-wide subscription.
+ *
+ * @param collection - Collection created by createCollection
+ * @param ids - Record id or ids to subscribe to; null/undefined subscribes to nothing
+ *
+ * @example
+ * ```tsx
+ * function BookDetail({ bookId }: { bookId: string }) {
+ *     const [books] = useStore('books');
+ *     const { data: book } = useLiveQuery(
+ *         (q) => q.from({ books }).where(({ books }) => eq(books.id, bookId)).findOne(),
+ *         [bookId]
+ *     );
+ *     useRecordSubscription(books, bookId);
+ *
+ *     return <h1>{book?.title}</h1>;
+ * }
+ * ```
+ */
+export function useRecordSubscription(
+    collection: RecordSubscribableCollection,
+    ids: string | readonly string[] | null | undefined
+): void {
+    const idList = ids == null ? [] : typeof ids === 'string' ? [ids] : ids;
+    // Compared by value, so a new array with the same ids doesn't resubscribe
+    const idsKey = [...new Set(idList)].sort().join(',');
+
+    useEffect(() => {
+        if (!idsKey) return;
+
+        const releases = idsKey.split(',').map((id) => collection.subscribeRecord(id));
+        return () => {
+            for (const release of releases) release();
+        };
+    }, [collection, idsKey]);
+}
+
+/**
+ * Returns the realtime connection status shared by all collections created from a PocketBase client,
+ * re-rendering whenever it changes.
+ *
+ * @param pb - PocketBase client the collections were created with
+ *
+ * @example
+ * ```tsx
+ * function LiveIndicator() {
+ *     const { state, lastConnectedAt } = useConnectionStatus(pb);
+ *
+ *     if (state === 'connected') return <span>Live</span>;
+ *     if (state === 'reconnecting') return <span>Reconnecting…</span>;
+ *     return <span>Offline{lastConnectedAt && ` since ${lastConnectedAt.toLocaleTimeString()}`}</span>;
+ * }
+ * ```
+ */
+export function useConnectionStatus(pb: PocketBase): ConnectionStatus {
+    const source = getConnectionStatus(pb);
+    return useSyncExternalStore(source.subscribe, source.getStatus, source.getStatus);
+}
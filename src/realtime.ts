@@ -0,0 +1,260 @@
+import type PocketBase from 'pocketbase';
+import type { RecordSubscribeOptions, RecordSubscription } from 'pocketbase';
+import { logger } from './logger';
+
+type Listener = (event: RecordSubscription<Record<string, unknown>>) => void;
+
+/**
+ * One collection instance listening to a shared topic, with the expand and fields it asked for.
+ * @internal
+ */
+interface Consumer {
+    listener: Listener;
+    expand?: string;
+    fields?: string;
+}
+
+/**
+ * One subscription opened with the SDK, and the consumers it was opened for.
+ * @internal
+ */
+interface Generation {
+    members: Set<Consumer>;
+    expand?: string;
+    fields?: string;
+    unsubscribe: () => Promise<void>;
+}
+
+/**
+ * A topic shared by every collection instance of the same PocketBase collection and filter.
+ * @internal
+ */
+interface SharedTopic {
+    consumers: Set<Consumer>;
+    current?: Generation;
+    // Subscription changes are applied one after another
+    queue: Promise<void>;
+}
+
+const registries = new WeakMap<PocketBase, Map<string, SharedTopic>>();
+
+function registryOf(pb: PocketBase): Map<string, SharedTopic> {
+    let registry = registries.get(pb);
+    if (!registry) {
+        registry = new Map();
+        registries.set(pb, registry);
+    }
+    return registry;
+}
+
+function splitList(value: string | undefined): string[] {
+    return value ? value.split(',') : [];
+}
+
+/**
+ * Merges the expand and fields of every consumer: expand paths are combined, and fields are only
+ * restricted when every consumer restricts them.
+ */
+function mergeOptions(consumers: Iterable<Consumer>): { expand?: string; fields?: string } {
+    const expand = new Set<string>();
+    const fields = new Set<string>();
+    let allFields = false;
+    for (const consumer of consumers) {
+        for (const path of splitList(consumer.expand)) expand.add(path);
+        if (consumer.fields) {
+            for (const field of splitList(consumer.fields)) fields.add(field);
+        } else {
+            allFields = true;
+        }
+    }
+    return {
+        expand: expand.size > 0 ? [...expand].sort().join(',') : undefined,
+        fields: allFields || fields.size === 0 ? undefined : [...fields].sort().join(','),
+    };
+}
+
+type ExpandTree = Map<string, ExpandTree>;
+
+function expandTree(expand: string | undefined): ExpandTree {
+    const tree: ExpandTree = new Map();
+    for (const path of splitList(expand)) {
+        let level = tree;
+        for (const key of path.split('.')) {
+            let next = level.get(key);
+            if (!next) {
+                next = new Map();
+                level.set(key, next);
+            }
+            level = next;
+        }
+    }
+    return tree;
+}
+
+// Removes the expanded relations a consumer didn't ask for, at every level
+function pruneExpand(record: Record<string, unknown>, tree: ExpandTree): Record<string, unknown> {
+    const { expand, ...rest } = record as Record<string, unknown> & { expand?: Record<string, unknown> };
+    if (!expand || tree.size === 0) return rest;
+
+    const pruned: Record<string, unknown> = {};
+    for (const [key, subtree] of tree) {
+        const value = expand[key];
+        if (value === undefined) continue;
+        pruned[key] = Array.isArray(value)
+            ? value.map((item) => pruneExpand(item, subtree))
+            : pruneExpand(value as Record<string, unknown>, subtree);
+    }
+    return { ...rest, expand: pruned };
+}
+
+/**
+ * Shapes an event of the shared subscription like the consumer's own subscription would have:
+ * only the fields and expanded relations it asked for.
+ */
+function projectEvent(event: RecordSubscription<Record<string, unknown>>, consumer: Consumer, generation: Generation): RecordSubscription<Record<string, unknown>> {
+    const sameExpand = (consumer.expand ?? '') === (generation.expand ?? '');
+    const sameFields = (consumer.fields ?? '') === (generation.fields ?? '');
+    if (sameExpand && sameFields) return event;
+
+    let record = event.record as Record<string, unknown>;
+    if (consumer.fields) {
+        const fields = new Set(splitList(consumer.fields));
+        record = Object.fromEntries(Object.entries(record).filter(([key]) => fields.has(key)));
+    }
+    if (!sameExpand) {
+        record = pruneExpand(record, expandTree(consumer.expand));
+    }
+    return { ...event, record };
+}
+
+// Opens a subscription covering every current consumer, then closes the previous one
+async function refresh(pb: PocketBase, collectionName: string, topic: string, filter: string | undefined, shared: SharedTopic): Promise<void> {
+    if (shared.consumers.size === 0) {
+        const previous = shared.current;
+        shared.current = undefined;
+        await previous?.unsubscribe();
+        return;
+    }
+
+    const { expand, fields } = mergeOptions(shared.consumers);
+    const current = shared.current;
+    if (current && current.expand === expand && current.fields === fields) {
+        for (const consumer of shared.consumers) current.members.add(consumer);
+        return;
+    }
+
+    const options: RecordSubscribeOptions = {};
+    if (expand) options.expand = expand;
+    if (fields) options.fields = fields;
+    if (filter) options.filter = filter;
+
+    const generation: Generation = { members: new Set(shared.consumers), expand, fields, unsubscribe: async () => {} };
+    generation.unsubscribe = await pb.collection(collectionName).subscribe(
+        topic,
+        (event) => {
+            for (const consumer of generation.members) {
+                // Consumers that left stop receiving events right away
+                if (shared.consumers.has(consumer)) consumer.listener(projectEvent(event, consumer, generation));
+            }
+        },
+        Object.keys(options).length > 0 ? options : undefined
+    );
+    shared.current = generation;
+    logger.debug('Shared realtime subscription opened', { collectionName, topic, expand, fields, consumers: shared.consumers.size });
+
+    // Events may arrive on both subscriptions for a moment; duplicates match the held records and are skipped
+    await current?.unsubscribe();
+}
+
+/**
+ * Topic subscribed for a moment to make the SDK submit every subscription again. Nothing is published to it.
+ * @internal
+ */
+const RESUBMIT_TOPIC = 'pbtsdb/resubmit';
+
+const authSubmissions = new WeakMap<PocketBase, { token: string; submitted: Promise<void> }>();
+
+/**
+ * Submits every realtime subscription of a client again, so PocketBase authorizes them for the current
+ * auth state: it only reads the token when subscriptions are submitted, and shared subscriptions that
+ * stay open while collections restart are never submitted again otherwise. The SDK submits the whole
+ * list whenever a topic is added or removed, so a throwaway topic is subscribed and unsubscribed.
+ * Every collection of the client shares one submission per token. Does nothing while disconnected;
+ * connecting submits them.
+ * @internal
+ */
+export function resubmitSubscriptions(pb: PocketBase): Promise<void> {
+    const token = pb.authStore.token;
+    const previous = authSubmissions.get(pb);
+    if (previous?.token === token) return previous.submitted;
+
+    const submitted = (async () => {
+        if (!pb.realtime.isConnected) return;
+
+        const unsubscribe = await pb.realtime.subscribe(RESUBMIT_TOPIC, () => {});
+        await unsubscribe();
+        logger.debug('Realtime subscriptions submitted for the new auth state', { loggedIn: pb.authStore.isValid });
+    })().catch((error) => {
+        // Tried again on the next auth change
+        if (authSubmissions.get(pb)?.submitted === submitted) authSubmissions.delete(pb);
+        throw error;
+    });
+    authSubmissions.set(pb, { token, submitted });
+    return submitted;
+}
+
+/**
+ * Subscribes a collection instance to a realtime topic (`'*'` or a record id) through a subscription
+ * shared with every other instance of the same PocketBase collection, topic and filter.
+ * The shared subscription expands and fetches what all its consumers need; each consumer receives
+ * events with only the fields and expanded relations it asked for.
+ *
+ * Resolves with an unsubscribe function once the shared subscription covers the consumer.
+ * @internal
+ */
+export async function subscribeShared<T = Record<string, unknown>>(
+    pb: PocketBase,
+    collectionName: string,
+    topic: string,
+    listener: (event: RecordSubscription<T>) => void,
+    options?: RecordSubscribeOptions
+): Promise<() => Promise<void>> {
+    const filter = options?.filter as string | undefined;
+    const key = JSON.stringify([collectionName, topic, filter ?? null]);
+    const registry = registryOf(pb);
+
+    let shared = registry.get(key);
+    if (!shared) {
+        shared = { consumers: new Set(), queue: Promise.resolve() };
+        registry.set(key, shared);
+    }
+    const topicState = shared;
+
+    const update = () => {
+        const run = topicState.queue.then(() => refresh(pb, collectionName, topic, filter, topicState));
+        topicState.queue = run.catch(() => {});
+        return run;
+    };
+
+    const consumer: Consumer = {
+        listener: listener as Listener,
+        expand: options?.expand as string | undefined,
+        fields: options?.fields as string | undefined,
+    };
+
+    const leave = async () => {
+        if (!topicState.consumers.delete(consumer)) return;
+        if (topicState.consumers.size === 0 && registry.get(key) === topicState) registry.delete(key);
+        await update();
+    };
+
+    topicState.consumers.add(consumer);
+    try {
+        await update();
+    } catch (error) {
+        await leave().catch(() => {});
+        throw error;
+    }
+
+    return leave;
+}
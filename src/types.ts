@@ -1,4 +1,4 @@
-import type { Collection, InsertMutationFn, UpdateMutationFn, DeleteMutationFn } from "@tanstack/db"
+import type { Collection, InsertMutationFn, UpdateMutationFn, DeleteMutationFn, IR, Ref } from "@tanstack/db"
 
 // ============================================================================
 // Schema Type Definitions
@@ -25,6 +25,12 @@ export interface BaseRecord {
  *             org: OrgRecord;
  *         };
  *     };
+ *     orgs: {
+ *         type: OrgRecord;
+ *         backRelations: {
+ *             users_via_org: UserRecord[];
+ *         };
+ *     };
  * }
  * ```
  */
@@ -34,6 +40,10 @@ export interface SchemaDeclaration {
         relations?: {
             [fieldName: string]: BaseRecord | BaseRecord[];
         };
+        /** Reverse relations, named `<collection>_via_<field>` like PocketBase's expand syntax */
+        backRelations?: {
+            [name: `${string}_via_${string}`]: BaseRecord[];
+        };
     };
 }
 
@@ -76,14 +86,16 @@ export type ComputeInsertType<
 > = Omit<T, OmitFields[number]> & Partial<Pick<T, OmitFields[number]>>;
 
 /**
- * Extracts the relations object from a schema collection.
- * Returns never if the collection has no relations defined.
+ * Extracts the relations object from a schema collection, including back-relations.
+ * Returns never if the collection has neither relations nor back-relations defined.
  * @internal
  */
 export type ExtractRelations<
     Schema extends SchemaDeclaration,
     CollectionName extends keyof Schema
-> = Schema[CollectionName] extends { relations: infer R } ? R : never;
+> = Schema[CollectionName] extends { backRelations: infer B }
+    ? Schema[CollectionName] extends { relations: infer R } ? R & B : B
+    : Schema[CollectionName] extends { relations: infer R } ? R : never;
 
 // ============================================================================
 // Expand Type Utilities
@@ -167,9 +179,72 @@ export type RelationAsCollection<T> =
         : T extends object ? Collection<T, string | number, any, any, any> : Collection<object, string | number, any, any, any>;
 
 
+/**
+ * Unwraps an array relation type to its record type.
+ *
+ * @example
+ * RelationRecord<Tag[]> => Tag
+ * @internal
+ */
+export type RelationRecord<T> = T extends Array<infer U> ? U : T;
+
+/**
+ * Finds the name of the schema collection whose record type is T.
+ * Used to look up the relations of an expanded record for nested expand.
+ *
+ * @example
+ * CollectionNameForRecord<Schema, Authors> => 'authors'
+ * @internal
+ */
+export type CollectionNameForRecord<Schema extends SchemaDeclaration, T> = {
+    [K in keyof Schema]: [Schema[K]['type']] extends [T]
+        ? [T] extends [Schema[K]['type']] ? K : never
+        : never;
+}[keyof Schema];
+
+/**
+ * Expand entry that also expands relations of the related record.
+ * Each level is auto-upserted into its own target collection.
+ *
+ * @example
+ * ```ts
+ * const bookTagsCollection = createCollection<Schema>(pb, queryClient)('book_tags', {
+ *     expand: {
+ *         tag: tagsCollection,
+ *         book: {
+ *             collection: booksCollection,
+ *             expand: { author: authorsCollection }  // expands 'book.author'
+ *         }
+ *     }
+ * });
+ * ```
+ */
+export interface NestedExpandConfig<
+    Schema extends SchemaDeclaration,
+    CollectionName extends keyof Schema,
+    T
+> {
+    /** Collection that receives the expanded records at this level */
+    collection: RelationAsCollection<T>;
+    /** Relations of the related record to expand as well */
+    expand: ExpandConfig<Schema, CollectionName>;
+}
+
+/**
+ * A single expand entry: either the target collection, or a nested expand config.
+ * @internal
+ */
+export type ExpandConfigEntry<
+    Schema extends SchemaDeclaration,
+    R
+> =
+    | RelationAsCollection<R>
+    | NestedExpandConfig<Schema, CollectionNameForRecord<Schema, RelationRecord<R>>, R>;
+
 /**
  * Configuration for per-collection expand - maps relation field names to their target collections.
  * Relations configured here are automatically expanded on every fetch and auto-upserted into target collections.
+ * Use a NestedExpandConfig to expand relations of the related records too.
  *
  * @example
  * ```ts
@@ -187,11 +262,58 @@ export type ExpandConfig<
 > = ExtractRelations<Schema, CollectionName> extends never
     ? Record<string, never>
     : Partial<{
-        [K in keyof ExtractRelations<Schema, CollectionName>]: RelationAsCollection<
+        [K in keyof ExtractRelations<Schema, CollectionName>]: ExpandConfigEntry<
+            Schema,
             ExcludeUndefined<ExtractRelations<Schema, CollectionName>[K]>
         >;
     }>;
 
+/**
+ * Computes the `expand` object type produced by an expand config, including nested levels.
+ *
+ * @example
+ * ```ts
+ * ExpandedRelations<Schema, 'book_tags', { book: { collection: ..., expand: { author: ... } } }>
+ * // => { book: Books & { expand?: { author: Authors } } }
+ * ```
+ * @internal
+ */
+export type ExpandedRelations<
+    Schema extends SchemaDeclaration,
+    CollectionName extends keyof Schema,
+    E
+> = {
+    [K in keyof E]: K extends keyof ExtractRelations<Schema, CollectionName>
+        ? ExpandedRelation<Schema, ExtractRelations<Schema, CollectionName>[K], E[K]>
+        : never;
+};
+
+/**
+ * Expanded type of one relation: the related record (or array of records) plus its nested expand.
+ * @internal
+ */
+export type ExpandedRelation<
+    Schema extends SchemaDeclaration,
+    R,
+    Entry
+> = R extends undefined
+    ? R
+    : R extends Array<infer U>
+        ? WithNestedExpand<Schema, U, Entry>[]
+        : WithNestedExpand<Schema, R, Entry>;
+
+/**
+ * Adds the nested `expand` property to a related record when its entry is a NestedExpandConfig.
+ * @internal
+ */
+export type WithNestedExpand<
+    Schema extends SchemaDeclaration,
+    T,
+    Entry
+> = Entry extends { expand: infer E }
+    ? T & { expand?: ExpandedRelations<Schema, CollectionNameForRecord<Schema, T>, E> }
+    : T;
+
 /**
  * Runtime representation of a collection that can receive upserted expand data.
  * This is the minimal interface needed for the LoaderHost to insert expanded records.
@@ -202,6 +324,13 @@ export interface ExpandTargetCollection {
         writeUpsert: (records: object[]) => void;
     };
     isReady: () => boolean;
+    onFirstReady: (callback: () => void) => void;
+    get: (key: string) => object | undefined;
+    values: () => IterableIterator<object>;
+    subscribeChanges: (
+        callback: (changes: Array<{ type: string; key: string | number; value: object; previousValue?: object }>) => void,
+        options?: { includeInitialState?: boolean }
+    ) => { unsubscribe: () => void };
     _sync: {
         startSync: () => Promise<void>;
     };
@@ -224,10 +353,110 @@ export type ExpandableStoresConfig<
         [K in keyof ExtractRelations<Schema, CollectionName>]: ExpandTargetCollection;
     }>;
 
+// ============================================================================
+// Filters
+// ============================================================================
+
+/**
+ * A server-side record filter: either a PocketBase filter string,
+ * or a callback that builds the condition with TanStack DB operators.
+ *
+ * @example
+ * ```ts
+ * const byString: RecordFilter<Books> = 'genre = "Fiction"';
+ * const byBuilder: RecordFilter<Books> = (book) => eq(book.genre, 'Fiction');
+ * ```
+ */
+export type RecordFilter<T> = string | ((record: Ref<T>) => IR.BasicExpression<boolean>);
+
+// ============================================================================
+// Pagination
+// ============================================================================
+
+/**
+ * Options for loading a single page of records with `collection.loadPage()`.
+ *
+ * Use `page` for offset pagination, or `after` for keyset (cursor) pagination.
+ * Keyset pagination stays stable when records are inserted ahead of the cursor.
+ */
+export interface PageRequest<T extends object = BaseRecord> {
+    /** 1-based page number for offset pagination. Ignored when `after` is given. @default 1 */
+    page?: number;
+    /** Number of records per page. Defaults to the collection's `pageSize`. */
+    perPage?: number;
+    /** PocketBase filter string applied to the page */
+    filter?: string;
+    /**
+     * PocketBase sort string, e.g. `'-created,id'`.
+     * Required for cursor pagination; include a unique field (such as `id`) so the order is total.
+     */
+    sort?: string;
+    /** Load the records that follow this one in `sort` order (usually `result.nextCursor`) */
+    after?: Partial<T>;
+}
+
+/**
+ * A page of records returned by `collection.loadPage()`.
+ * The items have also been upserted into the collection.
+ */
+export interface PageResult<T extends object = BaseRecord> {
+    items: T[];
+    page: number;
+    perPage: number;
+    /** Total records matching the request (for cursor requests, the records after the cursor) */
+    totalItems: number;
+    /** Total pages matching the request (for cursor requests, the pages after the cursor) */
+    totalPages: number;
+    /** Cursor for the following page, or undefined when there are no more records */
+    nextCursor?: T;
+}
+
 // ============================================================================
 // Configuration Options
 // ============================================================================
 
+/**
+ * Progress information reported while a collection is loading its records page by page.
+ */
+export interface LoadProgress {
+    /** The PocketBase collection name */
+    collectionName: string;
+    /** The page that was just loaded (1-based) */
+    page: number;
+    /** Total number of pages that will be loaded */
+    totalPages: number;
+    /** Number of records loaded so far */
+    loaded: number;
+    /** Total number of records that will be loaded */
+    total: number;
+}
+
+/**
+ * Lifecycle state of a collection's realtime subscription.
+ * - `subscribing`: the subscription is being opened
+ * - `subscribed`: events are being received
+ * - `failed`: opening the subscription, or moving it to newly loaded subsets, failed; it is retried with backoff
+ * - `stopped`: the subscription is not needed (no live queries)
+ */
+export type RealtimeStatus = 'subscribing' | 'subscribed' | 'failed' | 'stopped';
+
+/**
+ * Emitted as `realtime:status` (`collection.on('realtime:status', …)`) whenever the realtime status changes.
+ */
+export interface RealtimeStatusEvent {
+    type: 'realtime:status';
+    /** The PocketBase collection name */
+    collectionName: string;
+    status: RealtimeStatus;
+    previousStatus: RealtimeStatus;
+    /** The error from `subscribe`, for `failed` events */
+    error?: unknown;
+    /** Number of failed attempts in a row, for `failed` events */
+    attempt?: number;
+    /** Milliseconds until the next attempt, for `failed` events */
+    retryIn?: number;
+}
+
 /**
  * Options for creating a collection.
  */
@@ -257,6 +486,66 @@ export interface CreateCollectionOptions<
      */
     expand?: ExpandConfig<Schema, CollectionName>;
 
+    /**
+     * How expanded relations are stored on records.
+     *
+     * - `'embedded'` (default): Keep the copy of each related record that PocketBase returned.
+     * - `'normalized'`: Keep only the foreign keys; `record.expand` references the records held by the
+     *   target collections, so every record sees updates to a related record as soon as its
+     *   collection receives them (e.g. via realtime).
+     *
+     * @default 'embedded'
+     */
+    expandStorage?: 'embedded' | 'normalized';
+
+    /**
+     * Only fetch these fields from PocketBase (forwarded as the `fields` parameter).
+     * Applies to list requests and to the realtime subscription, and narrows the record type.
+     * The 'id' field is always included, and so is 'updated' with `deltaSync`. Without 'updated',
+     * realtime updates that arrive out of order can't be detected and are applied as they come.
+     *
+     * Use `collection.loadFullRecord(id)` to fetch every field of one record, e.g. for a detail view.
+     *
+     * @example
+     * ```ts
+     * const booksCollection = createCollection<Schema>(pb, queryClient)('books', {
+     *     fields: ['title', 'genre', 'author'] as const
+     * });
+     * // Records are typed as Pick<Books, 'id' | 'title' | 'genre' | 'author'>
+     *
+     * const fullBook = await booksCollection.loadFullRecord(bookId);
+     * ```
+     */
+    fields?: readonly (keyof ExtractRecordType<Schema, CollectionName> & string)[];
+
+    /**
+     * Restrict the collection to a server-side subset of records.
+     *
+     * The filter is ANDed into every request for records and passed to the realtime
+     * subscription, so records outside the scope are never loaded. Records updated so that
+     * they leave the scope are removed from the collection: an id-only subscription to every record
+     * reports updates of held records, and those the scoped subscription didn't deliver are checked
+     * with the server.
+     *
+     * Accepts a PocketBase filter string or a callback built with TanStack DB operators.
+     *
+     * @example
+     * ```ts
+     * import { eq } from '@tanstack/db';
+     *
+     * // PocketBase filter string
+     * const booksCollection = createCollection<Schema>(pb, queryClient)('books', {
+     *     baseFilter: pb.filter('org = {:org}', { org: orgId })
+     * });
+     *
+     * // TanStack DB where-builder
+     * const booksCollection = createCollection<Schema>(pb, queryClient)('books', {
+     *     baseFilter: (book) => eq(book.org, orgId)
+     * });
+     * ```
+     */
+    baseFilter?: RecordFilter<ExtractRecordType<Schema, CollectionName>>;
+
     /**
      * Fields that can be omitted during insert operations.
      * Useful for server-generated fields like 'created', 'updated'.
@@ -396,6 +685,11 @@ export interface CreateCollectionOptions<
      *   filters/sorting triggers a new fetch from PocketBase. Enables true server-side
      *   filtering and is better for large datasets.
      *
+     * - `'progressive'`: Starts like `'on-demand'` so the first queries are answered quickly by
+     *   server-side filtered requests. The full collection then loads in the background, page by page
+     *   (see `pageSize` and `onLoadProgress`). Once complete, queries are evaluated client-side like
+     *   `'eager'`, and rows that were already loaded are kept.
+     *
      * @default 'eager'
      *
      * @example
@@ -407,7 +701,149 @@ export interface CreateCollectionOptions<
      * const collection = createCollection<Schema>(pb, queryClient)('books', {
      *     syncMode: 'on-demand'
      * });
+     *
+     * // Progressive mode - server-side filtering until the background full load completes
+     * const collection = createCollection<Schema>(pb, queryClient)('books', {
+     *     syncMode: 'progressive'
+     * });
+     * ```
+     */
+    syncMode?: 'eager' | 'on-demand' | 'progressive';
+
+    /**
+     * Number of records requested per `getList` call when loading records.
+     * Every page is fetched until the collection (or the query's `limit`) is complete.
+     *
+     * @default 500
+     */
+    pageSize?: number;
+
+    /**
+     * Called after each page of records is loaded.
+     * Useful for showing progress while large collections are loading.
+     *
+     * @example
+     * ```ts
+     * const collection = createCollection<Schema>(pb, queryClient)('books', {
+     *     pageSize: 200,
+     *     onLoadProgress: ({ loaded, total }) => {
+     *         console.log(`loaded ${loaded} of ${total} books`);
+     *     }
+     * });
+     * ```
+     */
+    onLoadProgress?: (progress: LoadProgress) => void;
+
+    /**
+     * Only download records that changed since the previous fetch.
+     *
+     * The highest `updated` value seen is remembered. Refetches then request only
+     * `updated >= lastSeen` records and merge them into the records already held.
+     * Requires the collection to have an `updated` autodate field; collections without one
+     * fall back to a full fetch. With `fields`, `updated` is always fetched. Only applies to eager collections: the subset queries of
+     * `'on-demand'` and `'progressive'` collections are always fetched in full.
+     *
+     * Deletions are not visible to a delta fetch. They still arrive through the
+     * realtime subscription; after a realtime reconnect, the catch-up fetch also lists
+     * record ids to remove records deleted while the connection was down.
+     *
+     * @default false
+     *
+     * @example
+     * ```ts
+     * const collection = createCollection<Schema>(pb, queryClient)('books', {
+     *     deltaSync: true
+     * });
+     *
+     * // Only books updated since the last fetch are downloaded
+     * await collection.utils.refetch();
+     * ```
+     */
+    deltaSync?: boolean;
+
+    /**
+     * What to do when the authenticated user changes (`pb.authStore.onChange`).
+     * Token refreshes for the same user are ignored.
+     *
+     * - `'reset'` (default): Clear the collection, resubmit the realtime subscriptions with the new
+     *   credentials and refetch. Records from the previous user are never visible to the next one.
+     * - `'refetch'`: Resubmit the realtime subscriptions and refetch, keeping current records visible
+     *   until the refetch replaces them. The collection is still cleared on logout.
+     * - `'ignore'`: Do nothing. Use for collections that do not depend on auth.
+     *
+     * @default 'reset'
+     */
+    authChangePolicy?: 'reset' | 'refetch' | 'ignore';
+
+    /**
+     * Which realtime subscription keeps the collection live.
+     *
+     * - `'collection'` (default): Subscribe to every record (`subscribe('*')`) while the collection is in use.
+     * - `'records'`: No collection-wide subscription; only records passed to `collection.subscribeRecord(id)`
+     *   (or the `useRecordSubscription` hook) receive realtime updates. Use for heavy collections
+     *   where only detail views need to be live.
+     *
+     * @default 'collection'
+     */
+    realtime?: 'collection' | 'records';
+
+    /**
+     * Coalesce bursts of realtime events into batched writes.
+     *
+     * Events are collected for the given number of milliseconds, or until the next animation frame
+     * with `'frame'`, and then applied in a single `writeBatch`. Repeated events for the same record
+     * collapse into its latest state, so a bulk import on the server re-renders live queries once
+     * per batch instead of once per record. Hidden pages don't run animation frames, so there
+     * `'frame'` collects events for 16ms instead.
+     *
+     * By default every event is written as soon as it arrives.
+     *
+     * @example
+     * ```ts
+     * const collection = createCollection<Schema>(pb, queryClient)('books', {
+     *     realtimeBatching: 100
+     * });
+     * ```
+     */
+    realtimeBatching?: number | 'frame';
+
+    /**
+     * Keep the realtime subscription after the last live query unsubscribes.
+     *
+     * - A number of milliseconds: the subscription lingers this long, so unmounting and remounting a
+     *   live query (e.g. on a route transition) neither resubscribes nor misses events. When the gap
+     *   was longer, the subscription is stopped and the next live query triggers a catch-up refetch.
+     * - `'always'`: once started, the subscription is never stopped.
+     *
+     * By default the subscription stops as soon as the last live query unsubscribes.
+     *
+     * @example
+     * ```ts
+     * const collection = createCollection<Schema>(pb, queryClient)('books', {
+     *     realtimeLinger: 30_000
+     * });
+     * ```
+     */
+    realtimeLinger?: number | 'always';
+
+    /**
+     * Pause the realtime subscription while the page is hidden, e.g. in background tabs.
+     *
+     * After the page has been hidden for the given number of milliseconds, the collection-wide
+     * subscription is stopped, so background tabs don't each hold a realtime connection. When the
+     * page is visible or focused again, the collection resubscribes and refetches to reconcile the
+     * changes it missed. Expanded target collections are no longer kept in use by this collection
+     * while it is paused, so their subscriptions stop too unless something else uses them.
+     * Per-record subscriptions (`subscribeRecord`) are kept.
+     *
+     * Only applies in browsers. By default realtime keeps running in hidden pages.
+     *
+     * @example
+     * ```ts
+     * const collection = createCollection<Schema>(pb, queryClient)('books', {
+     *     pauseRealtimeWhenHidden: 60_000
+     * });
      * ```
      */
-    syncMode?: 'eager' | 'on-demand';
+    pauseRealtimeWhenHidden?: number;
 }
@@ -12,6 +12,8 @@ import {
     createBooksCollection,
     waitForLoadFinish,
 } from './helpers'
+import { createCollection } from '../src'
+import type { Schema } from './schema'
 
 describe('Collection - Basic Operations', () => {
     let queryClient: QueryClient
@@ -95,6 +97,36 @@ describe('Collection - Basic Operations', () => {
         unmountList()
     }, 15000)
 
+    it('should only fetch the configured fields and load the full record on demand', async () => {
+        const booksCollection = createCollection<Schema>(pb, queryClient)('books', {
+            fields: ['title', 'genre'] as const,
+        })
+
+        const { result, unmount } = renderHook(() =>
+            useLiveQuery((q) =>
+                q.from({ books: booksCollection })
+            )
+        )
+
+        await waitForLoadFinish(result)
+        expect(result.current.data.length).toBeGreaterThan(0)
+
+        const book = result.current.data[0]
+        const title: string = book.title
+        expect(title).toBeTypeOf('string')
+        expect(book.id).toBeTypeOf('string')
+        // @ts-expect-error - isbn is not part of the projection
+        expect(book.isbn).toBeUndefined()
+
+        const fullBook = await booksCollection.loadFullRecord(book.id)
+        expect(fullBook.isbn).toBeTypeOf('string')
+        await waitFor(() => {
+            expect((booksCollection.get(book.id) as { isbn?: string } | undefined)?.isbn).toBe(fullBook.isbn)
+        })
+
+        unmount()
+    }, 15000)
+
     it('should return undefined when findOne matches no records', async () => {
         const booksCollection = createBooksCollection(queryClient)
 
@@ -14,7 +14,9 @@ import {
     createTestLogger,
     setLogger,
     resetLogger,
+    getTestSlug,
     waitForLoadFinish,
+    waitForSubscription,
 } from './helpers';
 
 describe('Per-Collection Expand Feature', () => {
@@ -125,6 +127,134 @@ describe('Per-Collection Expand Feature', () => {
         }, 15000);
     });
 
+    describe('Nested expand', () => {
+        it('should expand nested relations and upsert every level', async () => {
+            const c = createCollection<Schema>(pb, queryClient);
+            const authorsCollection = c('authors', { syncMode: 'on-demand' });
+            const booksCollection = c('books', { syncMode: 'on-demand' });
+            const tagsCollection = c('tags', { syncMode: 'on-demand' });
+            const bookTagsCollection = c('book_tags', {
+                expand: {
+                    tag: tagsCollection,
+                    book: {
+                        collection: booksCollection,
+                        expand: { author: authorsCollection },
+                    },
+                }
+            });
+
+            const { result } = renderHook(
+                () => useLiveQuery((q) => q.from({ bookTags: bookTagsCollection })),
+                { wrapper: ({ children }) => <>{children}</> }
+            );
+
+            await waitForLoadFinish(result, 10000);
+
+            const bookTag = result.current.data.find(bt => bt.expand?.book?.expand?.author);
+            if (!bookTag) throw new Error('Expected a book tag with a nested author');
+
+            // Nested levels are typed
+            const authorName: string | undefined = bookTag.expand?.book?.expand?.author?.name;
+            expect(authorName).toBeTypeOf('string');
+
+            // Every level is upserted into its own collection
+            const book = bookTag.expand!.book!;
+            await waitFor(() => {
+                expect(booksCollection.get(book.id)?.id).toBe(book.id);
+                expect(authorsCollection.get(book.author)?.name).toBe(authorName);
+                expect(tagsCollection.get(bookTag.tag)?.id).toBe(bookTag.tag);
+            });
+        }, 15000);
+    });
+
+    describe('Back-relation expand', () => {
+        it('should expand back-relations and upsert them into the referencing collection', async () => {
+            const c = createCollection<Schema>(pb, queryClient);
+            const booksCollection = c('books', { syncMode: 'on-demand' });
+            const authorsCollection = c('authors', {
+                expand: {
+                    books_via_author: booksCollection,
+                }
+            });
+
+            const { result } = renderHook(
+                () => useLiveQuery((q) => q.from({ authors: authorsCollection })),
+                { wrapper: ({ children }) => <>{children}</> }
+            );
+
+            await waitForLoadFinish(result, 10000);
+
+            const author = result.current.data.find(a => a.expand?.books_via_author?.length);
+            if (!author) throw new Error('Expected an author with books');
+
+            // Back-relations are typed as arrays of the referencing records
+            const books = author.expand!.books_via_author!;
+            const title: string = books[0].title;
+            expect(title).toBeTypeOf('string');
+            books.forEach(book => {
+                expect(book.author).toBe(author.id);
+            });
+
+            await waitFor(() => {
+                books.forEach(book => {
+                    expect(booksCollection.get(book.id)?.id).toBe(book.id);
+                });
+            });
+        }, 15000);
+    });
+
+    describe('Normalized expand storage', () => {
+        it('should serve expanded relations from the target collection', async () => {
+            const author = await pb.collection('authors').create({
+                name: `Normalized ${Date.now().toString().slice(-8)}`,
+                email: `${getTestSlug('norm')}@example.com`,
+            });
+            const book = await pb.collection('books').create({
+                title: `Normalized Book ${Date.now().toString().slice(-8)}`,
+                genre: 'Fiction',
+                isbn: getTestSlug('norm'),
+                author: author.id,
+            });
+
+            try {
+                const c = createCollection<Schema>(pb, queryClient);
+                const authorsCollection = c('authors', {});
+                const booksCollection = c('books', {
+                    expandStorage: 'normalized',
+                    expand: {
+                        author: authorsCollection,
+                    }
+                });
+
+                const { result } = renderHook(
+                    () => useLiveQuery((q) => q.from({ books: booksCollection }).where(({ books }) => eq(books.id, book.id))),
+                    { wrapper: ({ children }) => <>{children}</> }
+                );
+
+                await waitForLoadFinish(result, 10000);
+
+                // The expanded author is the record held by the authors collection, not a copy
+                await waitFor(() => {
+                    expect(result.current.data[0]?.expand?.author).toBe(authorsCollection.get(author.id));
+                }, { timeout: 5000 });
+
+                // Following the relation keeps the authors collection subscribed, so author updates show up in the book
+                await waitForSubscription(authorsCollection);
+                await pb.collection('authors').update(author.id, { name: `${author.name} Renamed` });
+                await waitFor(() => {
+                    expect(result.current.data[0]?.expand?.author?.name).toBe(`${author.name} Renamed`);
+                }, { timeout: 5000 });
+            } finally {
+                try {
+                    await pb.collection('books').delete(book.id);
+                    await pb.collection('authors').delete(author.id);
+                } catch (_error) {
+                    // Ignore cleanup errors
+                }
+            }
+        }, 20000);
+    });
+
     describe('Collection without expand config', () => {
         it('should not include expand when no expand config', async () => {
             const booksCollection = createCollection<Schema>(pb, queryClient)('books', {
@@ -13,6 +13,7 @@ import {
     createCollectionFactory,
     newRecordId,
     waitForLoadFinish,
+    waitForSubscription,
 } from './helpers'
 import type { Books } from './schema'
 
@@ -151,4 +152,54 @@ describe('Collection - Mutations', () => {
 
         expect(result.current.data.find((b) => b.id === newBook.id)).toBeUndefined()
     }, 15000)
+
+    it('should not let realtime echoes of its own updates overwrite newer optimistic values', async () => {
+        const authorId = await getTestAuthorId()
+        const book = await pb.collection('books').create({
+            title: `Echo Test ${Date.now().toString().slice(-8)}`,
+            genre: 'Fiction',
+            isbn: getTestSlug('echo'),
+            author: authorId,
+        })
+
+        try {
+            const collection = createCollectionFactory(queryClient).create('books', { syncMode: 'eager' })
+
+            const { result } = renderHook(() => useLiveQuery((q) => q.from({ books: collection })))
+
+            await waitForLoadFinish(result, 10000)
+            await waitForSubscription(collection)
+
+            // Record every title the record shows, like a field re-rendering while the user types
+            const titles: string[] = []
+            const subscription = collection.subscribeChanges((changes) => {
+                for (const change of changes) {
+                    if (change.key === book.id && change.type !== 'delete') titles.push(change.value.title)
+                }
+            })
+
+            // Each update is sent as soon as the previous one is persisted, so echoes of the earlier
+            // ones arrive while the later ones are still in flight
+            for (const version of [1, 2, 3]) {
+                const tx = collection.update(book.id, (draft) => {
+                    draft.title = `${book.title} v${version}`
+                })
+                await tx.isPersisted.promise
+            }
+            await new Promise((resolve) => setTimeout(resolve, 500))
+            subscription.unsubscribe()
+
+            // Once the last value showed, echoes of the earlier updates never brought older ones back
+            const lastShown = titles.indexOf(`${book.title} v3`)
+            expect(lastShown).toBeGreaterThanOrEqual(0)
+            expect(titles.slice(lastShown).every((title) => title === `${book.title} v3`)).toBe(true)
+            expect(collection.get(book.id)?.title).toBe(`${book.title} v3`)
+        } finally {
+            try {
+                await pb.collection('books').delete(book.id)
+            } catch (_error) {
+                // Ignore cleanup errors
+            }
+        }
+    }, 20000)
 })
@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest'
-import { convertToPocketBaseFilter, convertToPocketBaseSort } from '../src/pocketbase-query-converter'
+import { buildCursorFilter, combinePocketBaseFilters, convertToPocketBaseFilter, convertWhereBuilderToPocketBaseFilter, convertToPocketBaseSort } from '../src/pocketbase-query-converter'
 import { eq, gt, and, or } from '@tanstack/db'
 import type { IR } from '@tanstack/db'
 
@@ -52,4 +52,25 @@ describe('PocketBase Query Converter', () => {
         expect(convertToPocketBaseSort(null)).toBeUndefined()
         expect(convertToPocketBaseSort(undefined)).toBeUndefined()
     })
+
+    it('should AND together non-empty filters', () => {
+        expect(combinePocketBaseFilters('genre = "Fantasy"', undefined, '')).toBe('genre = "Fantasy"')
+        expect(combinePocketBaseFilters('genre = "Fantasy"', 'updated > "2024-01-01"'))
+            .toBe('(genre = "Fantasy") && (updated > "2024-01-01")')
+        expect(combinePocketBaseFilters(undefined, null)).toBeUndefined()
+    })
+
+    it('should convert a where-builder callback to PocketBase filter', () => {
+        const filter = convertWhereBuilderToPocketBaseFilter<{ genre: string; author: { name: string } }>(
+            (book) => and(eq(book.genre, 'Fantasy'), eq(book.author.name, 'Tolkien'))
+        )
+        expect(filter).toBe('(genre = "Fantasy" && author.name = "Tolkien")')
+    })
+
+    it('should build a keyset cursor filter from a sort and the last record', () => {
+        expect(buildCursorFilter('title', { title: 'Dune' })).toBe('title > "Dune"')
+        expect(buildCursorFilter('-created,id', { created: '2024-01-01 00:00:00.000Z', id: 'abc' }))
+            .toBe('(created < "2024-01-01 00:00:00.000Z") || (created = "2024-01-01 00:00:00.000Z" && id > "abc")')
+        expect(() => buildCursorFilter('', { id: 'abc' })).toThrow()
+    })
 })
@@ -1,12 +1,13 @@
 import { renderHook, waitFor } from '@testing-library/react';
 import { useLiveQuery, usePacedMutations } from '@tanstack/react-db';
 import { debounceStrategy } from '@tanstack/db';
-import { afterAll, beforeAll, beforeEach, afterEach, describe, expect, it } from 'vitest';
+import { afterAll, beforeAll, beforeEach, afterEach, describe, expect, it, vi } from 'vitest';
 import { eq } from '@tanstack/db'
 import type { QueryClient } from '@tanstack/react-query';
 
-import { createReactProvider } from '../src/react';
+import { createReactProvider, useConnectionStatus, useCount, useRecordSubscription } from '../src/react';
 import { createCollection } from '../src/collection';
+import { getConnectionStatus, type ConnectionEvent } from '../src/connection';
 import type { Schema } from './schema';
 import {
     pb,
@@ -307,6 +308,59 @@ describe('createReactProvider', () => {
 
 });
 
+describe('useCount', () => {
+    let queryClient: QueryClient;
+
+    beforeAll(async () => {
+        await authenticateTestUser();
+    });
+
+    afterAll(() => {
+        clearAuth();
+    });
+
+    beforeEach(() => {
+        queryClient = createTestQueryClient();
+    });
+
+    afterEach(() => {
+        queryClient.clear();
+    });
+
+    it('should count matching records on the server without loading them', async () => {
+        const books = createCollection<Schema>(pb, queryClient)('books', {});
+        const expected = (await pb.collection('books').getList(1, 1, { filter: 'genre = "Fiction"' })).totalItems;
+
+        expect(await books.count((book) => eq(book.genre, 'Fiction'))).toBe(expected);
+        expect(await books.count('genre = "Fiction"')).toBe(expected);
+        expect(books.size).toBe(0);
+    });
+
+    it('should keep the count live as records are created and deleted', async () => {
+        const books = createCollection<Schema>(pb, queryClient)('books', {});
+
+        const { result, unmount } = renderHook(() =>
+            useCount(books, (book) => eq(book.genre, 'Fiction'))
+        );
+
+        await waitFor(() => expect(result.current.isLoading).toBe(false), { timeout: 5000 });
+        const initialCount = result.current.count!;
+
+        const newBook = await pb.collection('books').create({
+            title: `Count Test ${Date.now().toString().slice(-8)}`,
+            genre: 'Fiction',
+            isbn: getTestSlug('count'),
+            author: await getTestAuthorId(),
+        });
+        await waitFor(() => expect(result.current.count).toBe(initialCount + 1), { timeout: 5000 });
+
+        await pb.collection('books').delete(newBook.id);
+        await waitFor(() => expect(result.current.count).toBe(initialCount), { timeout: 5000 });
+
+        unmount();
+    }, 15000);
+});
+
 describe('usePacedMutations', () => {
     let queryClient: QueryClient;
     const testLogger = createTestLogger();
@@ -503,3 +557,118 @@ describe('usePacedMutations', () => {
         }
     }, 20000);
 });
+
+describe('useRecordSubscription', () => {
+    let queryClient: QueryClient;
+
+    beforeAll(async () => {
+        await authenticateTestUser();
+    });
+
+    afterAll(() => {
+        clearAuth();
+    });
+
+    beforeEach(() => {
+        queryClient = createTestQueryClient();
+    });
+
+    afterEach(() => {
+        queryClient.clear();
+    });
+
+    it('should keep a single record live without a collection-wide subscription', async () => {
+        const books = createCollection<Schema>(pb, queryClient)('books', { realtime: 'records' });
+        const book = await pb.collection('books').create({
+            title: `Record Subscription ${Date.now().toString().slice(-8)}`,
+            genre: 'Fiction',
+            isbn: getTestSlug('recsub'),
+            author: await getTestAuthorId(),
+        });
+
+        const subscribeSpy = vi.spyOn(pb.collection('books'), 'subscribe');
+
+        try {
+            const { result, unmount } = renderHook(() => {
+                useRecordSubscription(books, book.id);
+                useRecordSubscription(books, [book.id]);
+                return useLiveQuery((q) =>
+                    q.from({ books }).where(({ books }) => eq(books.id, book.id)).findOne()
+                );
+            });
+
+            await waitForLoadFinish(result);
+            expect(result.current.data?.title).toBe(book.title);
+            expect(books.isSubscribed()).toBe(false);
+
+            // Both consumers share one subscription to the record's topic
+            expect(subscribeSpy).toHaveBeenCalledTimes(1);
+            expect(subscribeSpy.mock.calls[0][0]).toBe(book.id);
+            await subscribeSpy.mock.results[0].value;
+
+            await pb.collection('books').update(book.id, { title: `${book.title} Updated` });
+            await waitFor(() => expect(result.current.data?.title).toBe(`${book.title} Updated`), { timeout: 5000 });
+
+            unmount();
+        } finally {
+            subscribeSpy.mockRestore();
+            try {
+                await pb.collection('books').delete(book.id);
+            } catch (_error) {
+                // Ignore cleanup errors
+            }
+        }
+    }, 15000);
+});
+
+describe('useConnectionStatus', () => {
+    let queryClient: QueryClient;
+
+    beforeAll(async () => {
+        await authenticateTestUser();
+    });
+
+    afterAll(() => {
+        clearAuth();
+    });
+
+    beforeEach(() => {
+        queryClient = createTestQueryClient();
+    });
+
+    afterEach(() => {
+        queryClient.clear();
+    });
+
+    it('should report the shared realtime connection status and its changes', async () => {
+        const books = createCollection<Schema>(pb, queryClient)('books', {});
+        const events: ConnectionEvent[] = [];
+        const stopListening = getConnectionStatus(pb).onEvent((event) => events.push(event));
+
+        try {
+            const { result, unmount } = renderHook(() => ({
+                status: useConnectionStatus(pb),
+                query: useLiveQuery((q) => q.from({ books })),
+            }));
+
+            await waitFor(() => expect(result.current.status.state).toBe('connected'), { timeout: 5000 });
+            expect(result.current.status.lastConnectedAt).toBeInstanceOf(Date);
+            expect(result.current.status.error).toBeNull();
+
+            // Drop the connection; the SDK reconnects on its own
+            (pb.realtime as unknown as { connectErrorHandler: (err: unknown) => void }).connectErrorHandler(new Error('Simulated connection drop'));
+            await waitFor(() => {
+                expect(events.map((event) => event.type)).toContain('reconnecting');
+                expect(result.current.status.state).toBe('connected');
+            }, { timeout: 10000 });
+
+            const reconnected = events.find((event) => event.type === 'connected' && event.previous === 'reconnecting');
+            expect(reconnected?.clientId).toBe(pb.realtime.clientId);
+            expect(reconnected?.downtime).toBeGreaterThanOrEqual(0);
+
+            unmount();
+        } finally {
+            stopListening();
+        }
+    }, 20000);
+});
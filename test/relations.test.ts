@@ -1,7 +1,7 @@
-import { renderHook } from '@testing-library/react'
+import { renderHook, waitFor } from '@testing-library/react'
 import { useLiveQuery } from '@tanstack/react-db'
 import { eq } from '@tanstack/db'
-import { afterAll, beforeAll, beforeEach, afterEach, describe, expect, it } from 'vitest'
+import { afterAll, beforeAll, beforeEach, afterEach, describe, expect, it, vi } from 'vitest'
 
 import type { QueryClient } from '@tanstack/react-query'
 
@@ -14,7 +14,9 @@ import {
     createTestLogger,
     setLogger,
     resetLogger,
+    getTestSlug,
     waitForLoadFinish,
+    waitForSubscription,
 } from './helpers'
 import type { Schema } from './schema'
 
@@ -166,7 +168,7 @@ describe('Collection - Relations', () => {
         })
     })
 
-    it('should warn when eager expand target store is not ready', async () => {
+    it('should upsert expanded records once an eager target store becomes ready', async () => {
         const factory = createCollectionFactory(queryClient)
         const authorsCollection = factory.create('authors', { syncMode: 'eager' })
         const booksCollection = factory.create('books', {
@@ -186,19 +188,138 @@ describe('Collection - Relations', () => {
         expect(result.current.data).toBeDefined()
         expect(result.current.data.length).toBeGreaterThan(0)
 
-        // When an eager store is used as an expand target but isn't ready yet,
-        // we expect a warning to be logged (expand data won't be upserted)
-        const notReadyWarnings = testLogger.messages.warn.filter(
-            w => w.msg.includes('not syncing') && w.msg.includes('not yet ready')
-        )
-        expect(notReadyWarnings.length).toBeGreaterThan(0)
-
-        // The expand data should still be present on the record from PocketBase
+        // The expand data is present on the record from PocketBase
         const firstBook = result.current.data[0]
-        expect(firstBook.expand).toBeDefined()
         expect(firstBook.expand?.author).toBeDefined()
+
+        // An expanded author that arrives before the eager target is ready is buffered rather than dropped
+        const notReadyWarnings = testLogger.messages.warn.filter(w => w.msg.includes('not yet ready'))
+        expect(notReadyWarnings).toHaveLength(0)
+
+        // The authors collection loads nothing itself, so the author can only come from the buffer
+        const getListSpy = vi.spyOn(pb.collection('authors'), 'getList').mockResolvedValue({
+            page: 1,
+            perPage: 500,
+            totalItems: 0,
+            totalPages: 0,
+            items: [],
+        })
+        try {
+            await authorsCollection.preload()
+            expect(getListSpy).toHaveBeenCalled()
+            await waitFor(() => {
+                expect(authorsCollection.get(firstBook.author)?.name).toBe(firstBook.expand?.author?.name)
+            })
+        } finally {
+            getListSpy.mockRestore()
+        }
     })
 
+    it('should propagate realtime changes of related records into embedded expand', async () => {
+        const author = await pb.collection('authors').create({
+            name: `Propagation ${Date.now().toString().slice(-8)}`,
+            email: `${getTestSlug('prop')}@example.com`,
+        })
+        const book = await pb.collection('books').create({
+            title: `Propagation Book ${Date.now().toString().slice(-8)}`,
+            genre: 'Fiction',
+            isbn: getTestSlug('prop'),
+            author: author.id,
+        })
+
+        try {
+            const factory = createCollectionFactory(queryClient)
+            const authorsCollection = factory.create('authors', { syncMode: 'on-demand' })
+            const booksCollection = factory.create('books', {
+                expand: {
+                    author: authorsCollection
+                }
+            })
+
+            const { result } = renderHook(() =>
+                useLiveQuery((q) =>
+                    q.from({ books: booksCollection })
+                        .where(({ books }) => eq(books.id, book.id))
+                )
+            )
+
+            await waitForLoadFinish(result)
+            expect(result.current.data[0]?.expand?.author?.name).toBe(author.name)
+
+            // The books collection keeps the authors collection subscribed while it is in use
+            await waitForSubscription(authorsCollection)
+            await pb.collection('authors').update(author.id, { name: `${author.name} Renamed` })
+            await waitFor(() => {
+                expect(result.current.data[0]?.expand?.author?.name).toBe(`${author.name} Renamed`)
+            }, { timeout: 5000 })
+        } finally {
+            for (const [collection, id] of [['books', book.id], ['authors', author.id]] as const) {
+                try {
+                    await pb.collection(collection).delete(id)
+                } catch (_error) {
+                    // Ignore cleanup errors
+                }
+            }
+        }
+    }, 20000)
+
+    it('should propagate realtime changes of nested related records into embedded expand', async () => {
+        const author = await pb.collection('authors').create({
+            name: `Nested Propagation ${Date.now().toString().slice(-8)}`,
+            email: `${getTestSlug('nested-prop')}@example.com`,
+        })
+        const book = await pb.collection('books').create({
+            title: `Nested Propagation Book ${Date.now().toString().slice(-8)}`,
+            genre: 'Fiction',
+            isbn: getTestSlug('nested-prop'),
+            author: author.id,
+        })
+        const tag = await pb.collection('tags').create({
+            name: `nested-prop-${Date.now().toString().slice(-8)}`,
+            color: '#000000',
+        })
+        const bookTag = await pb.collection('book_tags').create({ book: book.id, tag: tag.id })
+
+        try {
+            const factory = createCollectionFactory(queryClient)
+            const authorsCollection = factory.create('authors', { syncMode: 'on-demand' })
+            const booksCollection = factory.create('books', { syncMode: 'on-demand' })
+            const bookTagsCollection = factory.create('book_tags', {
+                expand: {
+                    book: {
+                        collection: booksCollection,
+                        expand: { author: authorsCollection },
+                    },
+                }
+            })
+
+            const { result } = renderHook(() =>
+                useLiveQuery((q) =>
+                    q.from({ bookTags: bookTagsCollection })
+                        .where(({ bookTags }) => eq(bookTags.id, bookTag.id))
+                )
+            )
+
+            await waitForLoadFinish(result)
+            expect(result.current.data[0]?.expand?.book?.expand?.author?.name).toBe(author.name)
+
+            // The nested authors collection is followed as well
+            await waitForSubscription(authorsCollection)
+            await pb.collection('authors').update(author.id, { name: `${author.name} Renamed` })
+            await waitFor(() => {
+                expect(result.current.data[0]?.expand?.book?.expand?.author?.name).toBe(`${author.name} Renamed`)
+            }, { timeout: 5000 })
+        } finally {
+            for (const [collection, id] of [['book_tags', bookTag.id], ['tags', tag.id], ['books', book.id], ['authors', author.id]] as const) {
+                try {
+                    await pb.collection(collection).delete(id)
+                } catch (_error) {
+                    // Ignore cleanup errors
+                }
+            }
+        }
+    }, 20000)
+
     it('should allow chaining where() and orderBy() with auto-expand', async () => {
         const factory = createCollectionFactory(queryClient)
         const authorsCollection = factory.create('authors', { syncMode: 'eager' })
@@ -224,12 +345,6 @@ describe('Collection - Relations', () => {
         expect(result.current.data).toBeDefined()
         expect(result.current.data.length).toBeGreaterThan(0)
 
-        // Warning is expected when eager target store isn't ready
-        const notReadyWarnings = testLogger.messages.warn.filter(
-            w => w.msg.includes('not syncing') && w.msg.includes('not yet ready')
-        )
-        expect(notReadyWarnings.length).toBeGreaterThan(0)
-
         // Verify expand works with filtering
         const firstBook = result.current.data[0]
         expect(firstBook.genre).toBe(testGenre)
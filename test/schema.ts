@@ -448,8 +448,9 @@ export type Schema = {
     }
     authors: {
         type: Authors
-        relations: {
-            // books_via_author?: Books[]
+        relations: {}
+        backRelations: {
+            books_via_author: Books[]
         }
     }
     books: {
@@ -4,7 +4,9 @@ import { eq } from '@tanstack/db'
 import { afterAll, beforeAll, beforeEach, afterEach, describe, expect, it, vi } from 'vitest'
 import type { QueryClient } from '@tanstack/react-query'
 
+import { createCollection, type LoadProgress } from '../src'
 import { pb, createTestQueryClient, authenticateTestUser, clearAuth, createBooksCollection } from './helpers'
+import type { Schema } from './schema'
 
 describe('Server-Side Filtering (on-demand mode)', () => {
     let queryClient: QueryClient
@@ -116,6 +118,141 @@ describe('Server-Side Filtering (on-demand mode)', () => {
         expect(result.current.data.length).toBeLessThanOrEqual(2)
     }, 15000)
 
+    it('should load every page when the collection is larger than pageSize', async () => {
+        const totalCount = (await pb.collection('books').getList(1, 1)).totalItems
+        expect(totalCount).toBeGreaterThan(2)
+
+        const progress: LoadProgress[] = []
+        const booksCollection = createCollection<Schema>(pb, queryClient)('books', {
+            pageSize: 2,
+            onLoadProgress: (p) => progress.push(p),
+        })
+
+        const getListSpy = vi.spyOn(pb.collection('books'), 'getList')
+
+        const { result } = renderHook(() =>
+            useLiveQuery((q) => q.from({ books: booksCollection }))
+        )
+
+        await waitFor(
+            () => {
+                expect(result.current.data.length).toBe(totalCount)
+            },
+            { timeout: 10000 }
+        )
+
+        // Every request uses the same perPage so page offsets line up
+        const expectedPages = Math.ceil(totalCount / 2)
+        expect(getListSpy.mock.calls.map(call => call[0])).toEqual(
+            Array.from({ length: expectedPages }, (_, i) => i + 1)
+        )
+        getListSpy.mock.calls.forEach(call => {
+            expect(call[1]).toBe(2)
+        })
+
+        expect(progress.length).toBe(expectedPages)
+        expect(progress[progress.length - 1]).toEqual({
+            collectionName: 'books',
+            page: expectedPages,
+            totalPages: expectedPages,
+            loaded: totalCount,
+            total: totalCount,
+        })
+    }, 15000)
+
+    it('should stop paging once the query limit is reached', async () => {
+        const booksCollection = createCollection<Schema>(pb, queryClient)('books', {
+            syncMode: 'on-demand',
+            pageSize: 2,
+        })
+
+        const getListSpy = vi.spyOn(pb.collection('books'), 'getList')
+
+        const { result } = renderHook(() =>
+            useLiveQuery((q) =>
+                q.from({ books: booksCollection })
+                    .orderBy(({ books }) => books.id)
+                    .limit(3)
+            )
+        )
+
+        await waitFor(
+            () => {
+                expect(result.current.data.length).toBe(3)
+            },
+            { timeout: 10000 }
+        )
+
+        const pages = getListSpy.mock.calls.map(call => call[0])
+        expect(pages).toEqual([1, 2])
+    }, 15000)
+
+    it('should load pages by offset and report totals', async () => {
+        const totalCount = (await pb.collection('books').getList(1, 1)).totalItems
+        expect(totalCount).toBeGreaterThan(2)
+
+        const booksCollection = createBooksCollection(queryClient, { syncMode: 'on-demand' })
+
+        const first = await booksCollection.loadPage({ page: 1, perPage: 2, sort: 'id' })
+        expect(first.items.length).toBe(2)
+        expect(first.totalItems).toBe(totalCount)
+        expect(first.totalPages).toBe(Math.ceil(totalCount / 2))
+        expect(first.nextCursor?.id).toBe(first.items[1].id)
+
+        const second = await booksCollection.loadPage({ page: 2, perPage: 2, sort: 'id' })
+        expect(second.page).toBe(2)
+        expect(second.items[0].id > first.items[1].id).toBe(true)
+
+        // Both pages are kept in the collection
+        for (const book of [...first.items, ...second.items]) {
+            expect(booksCollection.has(book.id)).toBe(true)
+        }
+    }, 15000)
+
+    it('should load the next window with a keyset cursor', async () => {
+        const allBooks = await pb.collection('books').getFullList({ sort: '-created,id' })
+        expect(allBooks.length).toBeGreaterThan(2)
+
+        const booksCollection = createBooksCollection(queryClient, { syncMode: 'on-demand' })
+
+        const first = await booksCollection.loadPage({ perPage: 2, sort: '-created,id' })
+        expect(first.items.map(b => b.id)).toEqual(allBooks.slice(0, 2).map(b => b.id))
+
+        const next = await booksCollection.loadPage({ perPage: 2, sort: '-created,id', after: first.nextCursor })
+        expect(next.items.map(b => b.id)).toEqual(allBooks.slice(2, 4).map(b => b.id))
+        expect(next.totalItems).toBe(allBooks.length - 2)
+    }, 15000)
+
+    it('should keep loaded pages when a live query loads and unloads its subset', async () => {
+        const allBooks = await pb.collection('books').getFullList({ sort: 'id' })
+        const testGenre = allBooks[0].genre
+
+        const booksCollection = createBooksCollection(queryClient, { syncMode: 'on-demand' })
+        const first = await booksCollection.loadPage({ page: 1, perPage: 2, sort: 'id' })
+        const second = await booksCollection.loadPage({ page: 2, perPage: 2, sort: 'id' })
+        const pageIds = [...first.items, ...second.items].map(b => b.id)
+
+        const { result, unmount } = renderHook(() =>
+            useLiveQuery((q) =>
+                q.from({ books: booksCollection })
+                    .where(({ books }) => eq(books.genre, testGenre))
+            )
+        )
+        await waitFor(() => {
+            expect(result.current.data.length).toBe(allBooks.filter(b => b.genre === testGenre).length)
+        }, { timeout: 10000 })
+
+        for (const id of pageIds) {
+            expect(booksCollection.has(id)).toBe(true)
+        }
+
+        unmount()
+        await new Promise(resolve => setTimeout(resolve, 100))
+        for (const id of pageIds) {
+            expect(booksCollection.has(id)).toBe(true)
+        }
+    }, 15000)
+
     it('should verify server-side filtered results match expected count', async () => {
         const booksCollection = createBooksCollection(queryClient, { syncMode: 'on-demand' })
 
@@ -69,6 +69,147 @@ describe('Collection - Real-time Subscriptions', () => {
         }
     }, 15000)
 
+    it('should include expanded relations in real-time events', async () => {
+        const factory = createCollectionFactory(queryClient)
+        const authorsCollection = factory.create('authors', { syncMode: 'on-demand' })
+        const booksCollection = factory.create('books', {
+            syncMode: 'eager',
+            expand: {
+                author: authorsCollection
+            }
+        })
+        const subscribeSpy = vi.spyOn(pb.collection('books'), 'subscribe')
+
+        const { result } = renderHook(() =>
+            useLiveQuery((q) =>
+                q.from({ books: booksCollection })
+            )
+        )
+
+        await waitForLoadFinish(result)
+        await waitForSubscription(booksCollection)
+        expect(subscribeSpy.mock.calls[0][2]?.expand).toBe('author')
+
+        const authorId = await getTestAuthorId()
+        const newBook = await pb.collection('books').create({
+            title: `Expanded Realtime ${Date.now().toString().slice(-8)}`,
+            genre: 'Fiction',
+            isbn: getTestSlug('rtexp'),
+            author: authorId
+        })
+
+        // The live record looks like a fetched one, and its author is upserted into the authors collection
+        await waitFor(() => {
+            const createdBook = result.current.data.find(b => b.id === newBook.id)
+            expect(createdBook?.expand?.author?.id).toBe(authorId)
+        }, { timeout: 5000 })
+        expect(authorsCollection.get(authorId)?.id).toBe(authorId)
+
+        subscribeSpy.mockRestore()
+        try {
+            await pb.collection('books').delete(newBook.id)
+        } catch (_error) {
+            // Ignore cleanup errors
+        }
+    }, 15000)
+
+    it('should share one realtime subscription between collection instances', async () => {
+        const factory = createCollectionFactory(queryClient)
+        const authorsCollection = factory.create('authors', { syncMode: 'on-demand' })
+        const plainBooks = factory.create('books', { syncMode: 'eager' })
+        const expandedBooks = factory.create('books', {
+            syncMode: 'eager',
+            expand: {
+                author: authorsCollection
+            }
+        })
+
+        const { result } = renderHook(() => ({
+            plain: useLiveQuery((q) => q.from({ books: plainBooks })),
+            expanded: useLiveQuery((q) => q.from({ books: expandedBooks })),
+        }))
+
+        await waitFor(() => {
+            expect(result.current.plain.isLoading).toBe(false)
+            expect(result.current.expanded.isLoading).toBe(false)
+        }, { timeout: 5000 })
+        await waitForSubscription(plainBooks)
+        await waitForSubscription(expandedBooks)
+
+        // One SDK subscription to every book (the unfiltered '*' topic) serves both instances
+        const unfilteredBookTopics = Object.keys((pb.realtime as unknown as { subscriptions: Record<string, unknown> }).subscriptions)
+            .filter(key => key.startsWith('books/*') && !decodeURIComponent(key).includes('filter'))
+        expect(unfilteredBookTopics).toHaveLength(1)
+
+        const authorId = await getTestAuthorId()
+        const newBook = await pb.collection('books').create({
+            title: `Shared Realtime ${Date.now().toString().slice(-8)}`,
+            genre: 'Fiction',
+            isbn: getTestSlug('shared'),
+            author: authorId
+        })
+
+        try {
+            // Each instance receives the record shaped by its own options
+            await waitFor(() => {
+                expect(result.current.expanded.data.find(b => b.id === newBook.id)?.expand?.author?.id).toBe(authorId)
+                const plainBook = result.current.plain.data.find(b => b.id === newBook.id)
+                expect(plainBook).toBeDefined()
+                expect((plainBook as { expand?: unknown }).expand).toBeUndefined()
+            }, { timeout: 5000 })
+        } finally {
+            try {
+                await pb.collection('books').delete(newBook.id)
+            } catch (_error) {
+                // Ignore cleanup errors
+            }
+        }
+    }, 15000)
+
+    it('should only receive events for loaded subsets in on-demand mode', async () => {
+        const booksCollection = createBooksCollection(queryClient, { syncMode: 'on-demand' })
+        const authorId = await getTestAuthorId()
+
+        const { result } = renderHook(() =>
+            useLiveQuery((q) =>
+                q.from({ books: booksCollection })
+                    .where(({ books }) => eq(books.genre, 'Fiction'))
+            )
+        )
+
+        await waitForLoadFinish(result)
+        await waitForSubscription(booksCollection)
+
+        const outOfScope = await pb.collection('books').create({
+            title: `Out Of Subset ${Date.now().toString().slice(-8)}`,
+            genre: 'Non-Fiction',
+            isbn: getTestSlug('oos'),
+            author: authorId
+        })
+        const inScope = await pb.collection('books').create({
+            title: `In Subset ${Date.now().toString().slice(-8)}`,
+            genre: 'Fiction',
+            isbn: getTestSlug('ins'),
+            author: authorId
+        })
+
+        // Records that match none of the loaded subsets are never pulled into the collection
+        await waitFor(() => expect(booksCollection.has(inScope.id)).toBe(true), { timeout: 5000 })
+        expect(booksCollection.has(outOfScope.id)).toBe(false)
+
+        // An update that moves a record out of every loaded subset removes it locally
+        await pb.collection('books').update(inScope.id, { genre: 'Non-Fiction' })
+        await waitFor(() => expect(booksCollection.has(inScope.id)).toBe(false), { timeout: 5000 })
+
+        for (const id of [outOfScope.id, inScope.id]) {
+            try {
+                await pb.collection('books').delete(id)
+            } catch (_error) {
+                // Ignore cleanup errors
+            }
+        }
+    }, 15000)
+
     it('should receive real-time update events', async () => {
         const booksCollection = createBooksCollection(queryClient, { syncMode: 'eager' })
 
@@ -165,6 +306,150 @@ describe('Collection - Real-time Subscriptions', () => {
         expect(result.current.data.some(b => b.id === testBook.id)).toBe(false)
     }, 15000)
 
+    it('should catch up with a refetch after the realtime connection reconnects', async () => {
+        const booksCollection = createBooksCollection(queryClient, { syncMode: 'eager' })
+
+        const authorId = await getTestAuthorId()
+        const testBook = await pb.collection('books').create({
+            title: `Reconnect Test ${Date.now().toString().slice(-8)}`,
+            genre: 'Fiction',
+            isbn: getTestSlug('reconnect'),
+            author: authorId
+        })
+
+        const { result } = renderHook(() =>
+            useLiveQuery((q) =>
+                q.from({ books: booksCollection })
+            )
+        )
+
+        await waitForLoadFinish(result)
+        await waitForSubscription(booksCollection)
+        await waitFor(
+            () => expect(result.current.data.some(b => b.id === testBook.id)).toBe(true),
+            { timeout: 5000 }
+        )
+
+        const refetchSpy = vi.spyOn(booksCollection.utils, 'refetch')
+
+        // Drop the connection (the SDK reconnects on its own) and delete the book while it is down
+        const previousClientId = pb.realtime.clientId;
+        (pb.realtime as unknown as { connectErrorHandler: (err: unknown) => void }).connectErrorHandler(new Error('Simulated connection drop'))
+        await pb.collection('books').delete(testBook.id)
+
+        await waitFor(
+            () => {
+                expect(pb.realtime.clientId).not.toBe(previousClientId)
+                expect(refetchSpy).toHaveBeenCalled()
+                expect(result.current.data.some(b => b.id === testBook.id)).toBe(false)
+            },
+            { timeout: 10000 }
+        )
+
+        refetchSpy.mockRestore()
+    }, 20000)
+
+    it('should coalesce bursts of realtime events into one batched write', async () => {
+        const booksCollection = createCollectionFactory(queryClient).create('books', { realtimeBatching: 2000 })
+
+        const { result } = renderHook(() =>
+            useLiveQuery((q) =>
+                q.from({ books: booksCollection })
+            )
+        )
+
+        await waitForLoadFinish(result)
+        await waitForSubscription(booksCollection)
+
+        const changeBatches: number[] = []
+        const subscription = booksCollection.subscribeChanges((changes) => changeBatches.push(changes.length))
+
+        const baseTimestamp = Date.now().toString().slice(-8)
+        const authorId = await getTestAuthorId()
+        const books: Array<{ id: string }> = []
+
+        try {
+            for (let i = 1; i <= 3; i++) {
+                books.push(await pb.collection('books').create({
+                    title: `Burst${i} ${baseTimestamp}`,
+                    genre: 'Fiction',
+                    isbn: getTestSlug(`burst${i}`),
+                    author: authorId
+                }))
+            }
+            // Repeated updates to one record collapse into its latest state
+            for (let i = 1; i <= 3; i++) {
+                await pb.collection('books').update(books[0].id, { title: `Burst1 ${baseTimestamp} v${i}` })
+            }
+
+            await waitFor(
+                () => {
+                    expect(books.every(book => result.current.data.some(b => b.id === book.id))).toBe(true)
+                    expect(result.current.data.find(b => b.id === books[0].id)?.title).toBe(`Burst1 ${baseTimestamp} v3`)
+                },
+                { timeout: 5000 }
+            )
+
+            // All six events were applied together
+            expect(changeBatches).toEqual([3])
+        } finally {
+            subscription.unsubscribe()
+            for (const book of books) {
+                try {
+                    await pb.collection('books').delete(book.id)
+                } catch (_error) {
+                    // Ignore cleanup errors
+                }
+            }
+        }
+    }, 20000)
+
+    it('should skip realtime writes that would not change the held record', async () => {
+        const booksCollection = createBooksCollection(queryClient, { syncMode: 'eager' })
+
+        const authorId = await getTestAuthorId()
+        const testBook = await pb.collection('books').create({
+            title: `No-op Test ${Date.now().toString().slice(-8)}`,
+            genre: 'Fiction',
+            isbn: getTestSlug('noop'),
+            author: authorId
+        })
+
+        const { result } = renderHook(() =>
+            useLiveQuery((q) =>
+                q.from({ books: booksCollection })
+            )
+        )
+
+        await waitForLoadFinish(result)
+        await waitForSubscription(booksCollection)
+
+        // The record subscription delivers every event for the book a second time
+        const release = booksCollection.subscribeRecord(testBook.id)
+        const upsertSpy = vi.spyOn(booksCollection.utils, 'writeUpsert')
+
+        try {
+            await pb.collection('books').update(testBook.id, { title: `${testBook.title} Updated` })
+
+            await waitFor(
+                () => expect(result.current.data.find(b => b.id === testBook.id)?.title).toBe(`${testBook.title} Updated`),
+                { timeout: 5000 }
+            )
+            await new Promise(resolve => setTimeout(resolve, 500))
+
+            // The duplicate matches what the collection already holds, so only the first one is written
+            expect(upsertSpy).toHaveBeenCalledTimes(1)
+        } finally {
+            upsertSpy.mockRestore()
+            release()
+            try {
+                await pb.collection('books').delete(testBook.id)
+            } catch (_error) {
+                // Ignore cleanup errors
+            }
+        }
+    }, 15000)
+
     it('should handle multiple simultaneous updates with writeBatch', async () => {
         const booksCollection = createBooksCollection(queryClient)
 
@@ -306,6 +591,123 @@ describe('Collection - Real-time Subscriptions', () => {
         }
     }, 20000)
 
+    it('should keep the subscription through gaps shorter than realtimeLinger', async () => {
+        const booksCollection = createCollectionFactory(queryClient).create('books', { realtimeLinger: 300 })
+        const refetchSpy = vi.spyOn(booksCollection.utils, 'refetch')
+
+        const first = renderHook(() => useLiveQuery((q) => q.from({ books: booksCollection })))
+        await waitForLoadFinish(first.result)
+        await waitForSubscription(booksCollection)
+
+        // A short gap, like a route transition, keeps the subscription
+        first.unmount()
+        await new Promise(resolve => setTimeout(resolve, 100))
+        expect(booksCollection.isSubscribed()).toBe(true)
+
+        const second = renderHook(() => useLiveQuery((q) => q.from({ books: booksCollection })))
+        await waitForLoadFinish(second.result)
+        await new Promise(resolve => setTimeout(resolve, 400))
+        expect(booksCollection.isSubscribed()).toBe(true)
+        expect(refetchSpy).not.toHaveBeenCalled()
+
+        // A longer gap stops it, and the next live query catches up on the missed events
+        second.unmount()
+        await waitFor(() => expect(booksCollection.isSubscribed()).toBe(false), { timeout: 2000 })
+
+        const third = renderHook(() => useLiveQuery((q) => q.from({ books: booksCollection })))
+        await waitForLoadFinish(third.result)
+        await waitForSubscription(booksCollection)
+        expect(refetchSpy).toHaveBeenCalledTimes(1)
+
+        third.unmount()
+        refetchSpy.mockRestore()
+    }, 15000)
+
+    it('should pause realtime while the page is hidden and catch up once visible', async () => {
+        const booksCollection = createCollectionFactory(queryClient).create('books', { pauseRealtimeWhenHidden: 200 })
+        const refetchSpy = vi.spyOn(booksCollection.utils, 'refetch')
+        const visibilitySpy = vi.spyOn(document, 'visibilityState', 'get')
+
+        try {
+            const { result, unmount } = renderHook(() => useLiveQuery((q) => q.from({ books: booksCollection })))
+            await waitForLoadFinish(result)
+            await waitForSubscription(booksCollection)
+
+            visibilitySpy.mockReturnValue('hidden')
+            document.dispatchEvent(new Event('visibilitychange'))
+            await waitFor(() => expect(booksCollection.realtimeStatus()).toBe('stopped'), { timeout: 2000 })
+            expect(refetchSpy).not.toHaveBeenCalled()
+
+            visibilitySpy.mockReturnValue('visible')
+            document.dispatchEvent(new Event('visibilitychange'))
+            await waitForSubscription(booksCollection)
+            expect(refetchSpy).toHaveBeenCalledTimes(1)
+
+            unmount()
+        } finally {
+            visibilitySpy.mockRestore()
+            refetchSpy.mockRestore()
+        }
+    }, 15000)
+
+    it('should report the realtime lifecycle and retry failed subscriptions', async () => {
+        // A filter of its own, so the subscription isn't shared with collections of earlier tests
+        const booksCollection = createCollectionFactory(queryClient).create('books', {
+            baseFilter: `isbn != "${getTestSlug('lifecycle')}"`
+        })
+        const statuses: string[] = []
+        const stopListening = booksCollection.on('realtime:status', (event) => statuses.push(event.status))
+
+        const subscribeError = new Error('Simulated subscribe failure')
+        const subscribeSpy = vi.spyOn(pb.collection('books'), 'subscribe').mockRejectedValueOnce(subscribeError)
+
+        try {
+            const { result, unmount } = renderHook(() =>
+                useLiveQuery((q) =>
+                    q.from({ books: booksCollection })
+                )
+            )
+            await waitForLoadFinish(result)
+
+            // The wait rejects with the actual error instead of timing out
+            await expect(booksCollection.waitForSubscription()).rejects.toBe(subscribeError)
+            expect(booksCollection.realtimeStatus()).toBe('failed')
+
+            // The subscription is retried with backoff
+            await waitFor(() => expect(booksCollection.isSubscribed()).toBe(true), { timeout: 5000 })
+
+            unmount()
+            await waitFor(() => expect(booksCollection.realtimeStatus()).toBe('stopped'))
+            expect(statuses).toEqual(['subscribing', 'failed', 'subscribing', 'subscribed', 'stopped'])
+        } finally {
+            stopListening()
+            subscribeSpy.mockRestore()
+        }
+    }, 15000)
+
+    it('should restart realtime after the collection is garbage collected', async () => {
+        const booksCollection = createCollectionFactory(queryClient).create('books', {})
+        const statuses: string[] = []
+        booksCollection.on('realtime:status', (event) => statuses.push(event.status))
+
+        const first = renderHook(() => useLiveQuery((q) => q.from({ books: booksCollection })))
+        await waitForLoadFinish(first.result)
+        await waitForSubscription(booksCollection)
+        first.unmount()
+        await waitFor(() => expect(booksCollection.realtimeStatus()).toBe('stopped'))
+
+        await booksCollection.cleanup()
+        expect(booksCollection.status).toBe('cleaned-up')
+
+        // Status listeners and realtime management survive the cleanup
+        const second = renderHook(() => useLiveQuery((q) => q.from({ books: booksCollection })))
+        await waitForLoadFinish(second.result)
+        await waitForSubscription(booksCollection)
+        expect(statuses).toEqual(['subscribing', 'subscribed', 'stopped', 'subscribing', 'subscribed'])
+
+        second.unmount()
+    }, 15000)
+
     it('should not subscribe when liveQuery returns null (conditional queries)', async () => {
         const factory = createCollectionFactory(queryClient)
         const booksCollection = factory.create('books')
@@ -0,0 +1,270 @@
+import { renderHook, waitFor } from '@testing-library/react'
+import { useLiveQuery } from '@tanstack/react-db'
+import { eq } from '@tanstack/db'
+import { afterAll, beforeAll, beforeEach, afterEach, describe, expect, it, vi } from 'vitest'
+import type { QueryClient } from '@tanstack/react-query'
+
+import { createCollection } from '../src'
+import {
+    pb,
+    createTestQueryClient,
+    authenticateTestUser,
+    clearAuth,
+    getTestAuthorId,
+    getTestSlug,
+    waitForLoadFinish,
+    waitForSubscription,
+} from './helpers'
+import type { Schema } from './schema'
+
+describe('Collection - Sync Options', () => {
+    let queryClient: QueryClient
+
+    beforeAll(async () => {
+        await authenticateTestUser()
+    })
+
+    afterAll(() => {
+        clearAuth()
+    })
+
+    beforeEach(() => {
+        queryClient = createTestQueryClient()
+    })
+
+    afterEach(() => {
+        queryClient.clear()
+        vi.restoreAllMocks()
+    })
+
+    it('should only fetch records updated since the last fetch when deltaSync is enabled', async () => {
+        const booksCollection = createCollection<Schema>(pb, queryClient)('books', {
+            deltaSync: true,
+        })
+
+        const { result } = renderHook(() =>
+            useLiveQuery((q) => q.from({ books: booksCollection }))
+        )
+
+        await waitForLoadFinish(result)
+        const initialCount = result.current.data.length
+        expect(initialCount).toBeGreaterThan(0)
+
+        const testBook = await pb.collection('books').create({
+            title: `Delta Test ${Date.now().toString().slice(-8)}`,
+            genre: 'Fiction',
+            isbn: getTestSlug('delta'),
+            author: await getTestAuthorId(),
+        })
+
+        const getListSpy = vi.spyOn(pb.collection('books'), 'getList')
+        await booksCollection.utils.refetch()
+
+        // The refetch only asks for records newer than the previous fetch
+        expect(getListSpy).toHaveBeenCalled()
+        const [, , requestOptions] = getListSpy.mock.calls[0]
+        expect(requestOptions?.filter).toMatch(/^updated >= "/)
+
+        // Previously loaded rows are kept and the new record is merged in
+        await waitFor(() => expect(result.current.data.length).toBe(initialCount + 1))
+        expect(result.current.data.find(b => b.id === testBook.id)?.title).toBe(testBook.title)
+
+        try {
+            await pb.collection('books').delete(testBook.id)
+        } catch (_error) {
+            // Ignore cleanup errors
+        }
+    }, 15000)
+
+    it('should only load records matching a string baseFilter', async () => {
+        const allBooks = await pb.collection('books').getFullList()
+        const testGenre = allBooks[0].genre
+        const expectedCount = allBooks.filter(b => b.genre === testGenre).length
+
+        const booksCollection = createCollection<Schema>(pb, queryClient)('books', {
+            baseFilter: `genre = "${testGenre}"`,
+        })
+
+        const { result } = renderHook(() =>
+            useLiveQuery((q) => q.from({ books: booksCollection }))
+        )
+
+        await waitFor(() => expect(result.current.data.length).toBe(expectedCount), { timeout: 10000 })
+        result.current.data.forEach(book => {
+            expect(book.genre).toBe(testGenre)
+        })
+    }, 15000)
+
+    it('should drop out-of-scope events and remove records that leave a where-builder baseFilter', async () => {
+        const authorId = await getTestAuthorId()
+        const booksCollection = createCollection<Schema>(pb, queryClient)('books', {
+            baseFilter: (book) => eq(book.genre, 'Fiction'),
+        })
+
+        const { result } = renderHook(() =>
+            useLiveQuery((q) => q.from({ books: booksCollection }))
+        )
+
+        await waitForLoadFinish(result)
+        await waitForSubscription(booksCollection)
+        result.current.data.forEach(book => {
+            expect(book.genre).toBe('Fiction')
+        })
+
+        const outOfScope = await pb.collection('books').create({
+            title: `Out Of Scope ${Date.now().toString().slice(-8)}`,
+            genre: 'Non-Fiction',
+            isbn: getTestSlug('oos'),
+            author: authorId,
+        })
+        const inScope = await pb.collection('books').create({
+            title: `In Scope ${Date.now().toString().slice(-8)}`,
+            genre: 'Fiction',
+            isbn: getTestSlug('ins'),
+            author: authorId,
+        })
+
+        await waitFor(() => expect(result.current.data.some(b => b.id === inScope.id)).toBe(true), { timeout: 5000 })
+        expect(result.current.data.some(b => b.id === outOfScope.id)).toBe(false)
+
+        // Moving the record out of scope removes it from the collection
+        await pb.collection('books').update(inScope.id, { genre: 'Non-Fiction' })
+        await waitFor(() => expect(result.current.data.some(b => b.id === inScope.id)).toBe(false), { timeout: 5000 })
+
+        for (const id of [outOfScope.id, inScope.id]) {
+            try {
+                await pb.collection('books').delete(id)
+            } catch (_error) {
+                // Ignore cleanup errors
+            }
+        }
+    }, 15000)
+
+    it('should clear records on logout and refetch when a user logs in', async () => {
+        const booksCollection = createCollection<Schema>(pb, queryClient)('books', {})
+
+        const { result } = renderHook(() =>
+            useLiveQuery((q) => q.from({ books: booksCollection }))
+        )
+
+        await waitForLoadFinish(result)
+        const initialCount = result.current.data.length
+        expect(initialCount).toBeGreaterThan(0)
+
+        try {
+            // books require an authenticated user, so nothing should remain after logout
+            clearAuth()
+            await waitFor(() => expect(result.current.data.length).toBe(0), { timeout: 5000 })
+
+            await authenticateTestUser()
+            await waitFor(() => expect(result.current.data.length).toBe(initialCount), { timeout: 5000 })
+            await waitFor(() => expect(booksCollection.isSubscribed()).toBe(true), { timeout: 5000 })
+        } finally {
+            if (!pb.authStore.isValid) {
+                await authenticateTestUser()
+            }
+        }
+    }, 15000)
+
+    it('should resubmit subscriptions shared by two instances when the user changes', async () => {
+        const c = createCollection<Schema>(pb, queryClient)
+        const first = c('books', {})
+        const second = c('books', {})
+
+        const { result } = renderHook(() => ({
+            first: useLiveQuery((q) => q.from({ books: first })),
+            second: useLiveQuery((q) => q.from({ books: second })),
+        }))
+
+        await waitFor(() => {
+            expect(result.current.first.isLoading).toBe(false)
+            expect(result.current.second.isLoading).toBe(false)
+        }, { timeout: 5000 })
+        await waitForSubscription(first)
+        await waitForSubscription(second)
+
+        let bookId: string | undefined
+        try {
+            clearAuth()
+            await waitFor(() => expect(result.current.first.data.length).toBe(0), { timeout: 5000 })
+
+            // Both instances keep the shared subscription open, so only a resubmission carries the new token
+            const sendSpy = vi.spyOn(pb, 'send')
+            await authenticateTestUser()
+            await waitFor(() => {
+                expect(sendSpy.mock.calls.some(([path, options]) => path === '/api/realtime' && options?.method === 'POST')).toBe(true)
+            }, { timeout: 5000 })
+            await waitFor(() => expect(result.current.second.data.length).toBeGreaterThan(0), { timeout: 5000 })
+
+            const book = await pb.collection('books').create({
+                title: `Auth Resubmit ${Date.now().toString().slice(-8)}`,
+                genre: 'Fiction',
+                isbn: getTestSlug('resub'),
+                author: await getTestAuthorId(),
+            })
+            bookId = book.id
+
+            await waitFor(() => {
+                expect(result.current.first.data.some(b => b.id === book.id)).toBe(true)
+                expect(result.current.second.data.some(b => b.id === book.id)).toBe(true)
+            }, { timeout: 5000 })
+        } finally {
+            if (!pb.authStore.isValid) {
+                await authenticateTestUser()
+            }
+            if (bookId) {
+                try {
+                    await pb.collection('books').delete(bookId)
+                } catch (_error) {
+                    // Ignore cleanup errors
+                }
+            }
+        }
+    }, 20000)
+
+    it('should answer the first query on-demand and then load the full collection in progressive mode', async () => {
+        const allBooks = await pb.collection('books').getFullList()
+        const testGenre = allBooks[0].genre
+        const otherGenre = allBooks.find(b => b.genre !== testGenre)!.genre
+
+        let fullyLoaded = false
+        const getListSpy = vi.spyOn(pb.collection('books'), 'getList')
+        const booksCollection = createCollection<Schema>(pb, queryClient)('books', {
+            syncMode: 'progressive',
+            pageSize: 2,
+            onLoadProgress: ({ loaded, total }) => {
+                if (loaded === total) fullyLoaded = true
+            },
+        })
+
+        const { result } = renderHook(() =>
+            useLiveQuery((q) =>
+                q.from({ books: booksCollection })
+                    .where(({ books }) => eq(books.genre, testGenre))
+            )
+        )
+
+        await waitForLoadFinish(result)
+        // The first request is the server-side filtered one
+        expect(getListSpy.mock.calls[0][2]?.filter).toBe(`genre = "${testGenre}"`)
+
+        await waitFor(() => expect(fullyLoaded).toBe(true), { timeout: 10000 })
+        await waitFor(() => expect(booksCollection.size).toBe(allBooks.length))
+
+        // After the full load, new queries are answered locally
+        getListSpy.mockClear()
+        const { result: otherResult } = renderHook(() =>
+            useLiveQuery((q) =>
+                q.from({ books: booksCollection })
+                    .where(({ books }) => eq(books.genre, otherGenre))
+            )
+        )
+
+        await waitForLoadFinish(otherResult)
+        expect(otherResult.current.data.length).toBe(allBooks.filter(b => b.genre === otherGenre).length)
+        expect(getListSpy).not.toHaveBeenCalled()
+
+        // The rows loaded by the first query are still there
+        expect(result.current.data.length).toBe(allBooks.filter(b => b.genre === testGenre).length)
+    }, 20000)
+})